@@ -0,0 +1,14 @@
+declare module "*?raw" {
+    const text: string;
+    export default text;
+}
+
+declare module "*?binary" {
+    const bytes: Uint8Array;
+    export default bytes;
+}
+
+declare module "*.c" {
+    const source: string;
+    export default source;
+}
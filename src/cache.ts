@@ -0,0 +1,35 @@
+import { BuildCache } from "./compiler.js";
+import fs from "fs";
+import fsPath from "path";
+
+export interface DiskCache extends BuildCache {
+    clear(): void;
+}
+
+export function createDiskCache(cacheDir: string): DiskCache {
+    const pathForKey = (key: string): string => fsPath.join(cacheDir, key.substring(0, key.indexOf("-")), key);
+
+    return {
+        get(key: string): string | undefined {
+            try {
+                return fs.readFileSync(pathForKey(key), "utf-8");
+            } catch (e) {
+                return undefined;
+            }
+        },
+        set(key: string, value: string): void {
+            const path = pathForKey(key);
+            const tempPath = `${path}.${process.pid}.tmp`;
+            try {
+                fs.mkdirSync(fsPath.dirname(path), { recursive: true });
+                fs.writeFileSync(tempPath, value);
+                fs.renameSync(tempPath, path);
+            } catch (e) {
+                fs.rmSync(tempPath, { force: true });
+            }
+        },
+        clear(): void {
+            fs.rmSync(cacheDir, { recursive: true, force: true });
+        }
+    };
+}
@@ -1,73 +1,438 @@
 #!/usr/bin/env node
 
-import { program } from "commander";
+import { createDiskCache } from "./cache.js";
+import { Command, InvalidArgumentError, Option, program } from "commander";
 import * as compiler from "./compiler.js";
 import fs from "fs";
 import fsPath from "path";
+import { createReporter, Reporter, ReporterKind } from "./reporter.js";
 import { getNodeSystem } from "./system/node.js";
 import ts from "../ext/typescript.js";
 
-function main() {
+interface ModuleOptions {
+    reporter?: ReporterKind;
+    alias: compiler.Aliases;
+    stub: string[];
+    external: string[];
+    loader: compiler.Loaders;
+    define: compiler.Defines;
+    inlineEnv: string[];
+}
+
+interface CompileOptions extends ModuleOptions {
+    output?: string;
+    watch?: boolean;
+    sourceMaps: boolean;
+    compress?: boolean;
+    format: compiler.OutputFormat;
+    typeCheck: boolean;
+    stats?: "text" | "json";
+    maxSize?: number;
+    maxPackageSize: { [name: string]: number };
+    why: string[];
+    cacheDir: string;
+    cache: boolean;
+    clearCache?: boolean;
+}
+
+interface CheckOptions extends ModuleOptions {
+    watch?: boolean;
+}
+
+interface ExtractOptions {
+    directory: string;
+}
+
+async function main() {
     program
-        .usage("[options] <module>")
-        .requiredOption("-o, --output <file>", "write output to <file>")
+        .name("frida-compile");
+
+    const compileCommand = program
+        .command("compile [module]", { isDefault: true })
+        .description("compile a Frida script, or the entrypoints in frida-compile.config.json (default command; spell it out " +
+            "when the module is named like a command)")
+        .option("-o, --output <file>", "write output to <file>")
         .option("-w, --watch", "watch for changes and recompile")
         .option("-S, --no-source-maps", "omit source-maps")
-        .option("-c, --compress", "compress using terser");
+        .option("-c, --compress", "compress using terser")
+        .option("--no-compress", "do not compress, even if configured to")
+        .addOption(new Option("-f, --format <format>", "output format")
+            .choices(["bundle", "script"])
+            .default("bundle"))
+        .option("--no-type-check", "transpile each file without type checking");
+    addModuleOptions(compileCommand)
+        .addOption(new Option("--stats [format]", "report bundle size statistics")
+            .choices(["text", "json"])
+            .preset("text"))
+        .option("--max-size <size>", "fail if the output exceeds <size> bytes", parseSize)
+        .option("--max-package-size <name=size>", "fail if package <name> exceeds <size> bytes", parsePackageSize, {})
+        .option("--why <module>", "explain why <module> is included in the bundle", collect, [])
+        .option("--cache-dir <dir>", "keep build cache in <dir>", fsPath.join("node_modules", ".cache", "frida-compile"))
+        .option("--no-cache", "disable the build cache")
+        .option("--clear-cache", "clear the build cache before compiling")
+        .action(compile);
 
-    program.parse();
+    const checkCommand = program
+        .command("check [module]")
+        .description("type-check a Frida script and resolve its imports without emitting anything")
+        .option("-w, --watch", "watch for changes and check again");
+    addModuleOptions(checkCommand)
+        .action(check);
 
-    const opts = program.opts();
-    const projectRoot: string = process.cwd();
-    const entrypoint: string = program.args[0];
-    const outputPath: string = opts.output;
+    program
+        .command("inspect <bundle>")
+        .description("list the assets contained in a bundle")
+        .action(inspect);
+
+    program
+        .command("extract <bundle>")
+        .description("unpack the assets contained in a bundle")
+        .requiredOption("-d, --directory <dir>", "write assets to <dir>")
+        .action(extract);
+
+    await program.parseAsync();
+}
+
+function addModuleOptions(command: Command): Command {
+    return command
+        .addOption(new Option("--reporter <reporter>", "report diagnostics as pretty, plain, json or sarif")
+            .choices(["pretty", "plain", "json", "sarif"]))
+        .option("--alias <specifier=target>", "resolve <specifier> to a local file or another package", parseAlias, {})
+        .option("--stub <specifier>", "replace <specifier> with an empty module", collect, [])
+        .option("--external <specifier>", "leave <specifier> to be provided at runtime", collect, [])
+        .option("--loader <extension=loader>", "import files ending with <extension> as text, binary or cmodule", parseLoader, {})
+        .option("-D, --define <key=value>", "replace <key> with the constant <value>", parseDefine, {})
+        .option("--inline-env <name>", "replace process.env.<name> with its current value", collect, []);
+}
 
-    const fullOutputPath = fsPath.isAbsolute(outputPath) ? outputPath : fsPath.join(projectRoot, outputPath);
-    const outputDir = fsPath.dirname(fullOutputPath);
+async function compile(entrypoint: string | undefined, opts: CompileOptions, command: Command) {
+    const projectRoot: string = process.cwd();
 
     const system = getNodeSystem();
+    const config = compiler.loadProjectConfig(projectRoot, system);
+
+    let entrypoints: compiler.EntrypointConfig[];
+    if (entrypoint !== undefined) {
+        if (opts.output === undefined) {
+            command.error("error: required option '-o, --output <file>' not specified");
+        }
+        entrypoints = [{ input: entrypoint, output: opts.output }];
+    } else {
+        entrypoints = config?.entrypoints ?? [];
+        if (entrypoints.length === 0) {
+            command.error("error: missing required argument 'module' and no entrypoints configured");
+        }
+    }
+
     const assets = compiler.queryDefaultAssets(projectRoot, system);
+    for (const [name, path] of config?.shims ?? []) {
+        assets.shims.set(name, path);
+    }
 
-    const compilerOpts: compiler.Options = {
-        projectRoot,
-        entrypoint,
-        sourceMaps: opts.sourceMaps ? "included" : "omitted",
-        compression: opts.compress ? "terser" : "none",
-        assets,
-        system
-    };
+    const options = mergeCommandLineOptions(opts, command, config?.options ?? {});
 
-    if (opts.watch) {
-        compiler.watch(compilerOpts)
-            .on("bundleUpdated", writeBundle);
-    } else {
-        const bundle = compiler.build({
-            ...compilerOpts, onDiagnostic({
-                file,
-                start,
-                messageText
-            }) {
-                if (file !== undefined) {
-                    const { line, character } = ts.getLineAndCharacterOfPosition(file, start!);
-                    const message = ts.flattenDiagnosticMessageText(messageText, "\n");
-                    console.log(`${file.fileName} (${line + 1},${character + 1}): ${message}`);
-                } else {
-                    console.log(ts.flattenDiagnosticMessageText(messageText, "\n"));
+    const cache = createDiskCache(fsPath.resolve(projectRoot, opts.cacheDir));
+    if (opts.clearCache) {
+        cache.clear();
+    }
+
+    const reporter = makeReporter(opts, system);
+
+    try {
+        for (const { input, output } of entrypoints) {
+            const fullOutputPath = fsPath.isAbsolute(output) ? output : fsPath.join(projectRoot, output);
+            const outputDir = fsPath.dirname(fullOutputPath);
+
+            const compilerOpts: compiler.Options = {
+                ...options,
+                projectRoot,
+                entrypoint: input,
+                assets,
+                system,
+                cache: opts.cache ? cache : undefined,
+                projectConfig: config,
+            };
+            if (opts.stats !== undefined) {
+                compilerOpts.onStats = (opts.stats === "json") ? printStatsAsJson : printStats;
+            }
+
+            const writeBundle = (bundle: string): void => {
+                fs.mkdirSync(outputDir, { recursive: true });
+                fs.writeFileSync(fullOutputPath, bundle!);
+            };
+
+            if (opts.watch) {
+                const watcher = compiler.watch({ ...compilerOpts, onDiagnostic: d => reporter.report(d) })
+                    .on("bundleUpdated", writeBundle)
+                    .on("compilationFinished", () => reporter.flush());
+                if (opts.why.length > 0) {
+                    watcher.on("bundleBuilt", result => printInclusion(result, opts.why));
                 }
+            } else {
+                const result = await compiler.buildAsync({ ...compilerOpts, onDiagnostic: d => reporter.report(d) });
+                writeBundle(result.bundle);
+                printInclusion(result, opts.why);
+            }
+        }
+    } finally {
+        if (!opts.watch) {
+            reporter.flush();
+        }
+    }
+}
+
+function check(entrypoint: string | undefined, opts: CheckOptions, command: Command) {
+    const projectRoot: string = process.cwd();
+
+    const system = getNodeSystem();
+    const config = compiler.loadProjectConfig(projectRoot, system);
+
+    let inputs: string[];
+    if (entrypoint !== undefined) {
+        inputs = [entrypoint];
+    } else {
+        inputs = (config?.entrypoints ?? []).map(({ input }) => input);
+        if (inputs.length === 0) {
+            command.error("error: missing required argument 'module' and no entrypoints configured");
+        }
+    }
+
+    const assets = compiler.queryDefaultAssets(projectRoot, system);
+    for (const [name, path] of config?.shims ?? []) {
+        assets.shims.set(name, path);
+    }
+
+    const options = mergeCommandLineOptions(opts, command, config?.options ?? {});
+    const reporter = makeReporter(opts, system);
+
+    for (const input of inputs) {
+        const checkOpts: compiler.Options = {
+            ...options,
+            projectRoot,
+            entrypoint: input,
+            assets,
+            system,
+            projectConfig: config,
+        };
+
+        if (opts.watch) {
+            compiler.watch({ ...checkOpts, checkOnly: true, onDiagnostic: d => reporter.report(d) })
+                .on("compilationFinished", () => reporter.flush());
+        } else {
+            const diagnostics = compiler.check({ ...checkOpts, onDiagnostic: d => reporter.report(d) });
+            if (diagnostics.some(({ category }) => category === ts.DiagnosticCategory.Error)) {
+                process.exitCode = 1;
             }
-        });
-        writeBundle(bundle);
+        }
+    }
+
+    if (!opts.watch) {
+        reporter.flush();
+    }
+}
+
+function makeReporter(opts: ModuleOptions, system: ts.System): Reporter {
+    const kind: ReporterKind = opts.reporter ?? (system.writeOutputIsTTY?.() ? "pretty" : "plain");
+    return createReporter(kind, system);
+}
+
+function mergeCommandLineOptions(opts: ModuleOptions & Partial<CompileOptions>, command: Command,
+        configOptions: compiler.ConfigurableOptions): compiler.ConfigurableOptions {
+    const isSetOnCommandLine = (name: string) => command.getOptionValueSource(name) === "cli";
+
+    const options: compiler.ConfigurableOptions = { ...configOptions };
+    if (isSetOnCommandLine("sourceMaps")) {
+        options.sourceMaps = opts.sourceMaps ? "included" : "omitted";
     }
+    if (isSetOnCommandLine("compress")) {
+        options.compression = opts.compress ? "terser" : "none";
+    }
+    if (isSetOnCommandLine("format")) {
+        options.format = opts.format;
+    }
+    if (isSetOnCommandLine("typeCheck")) {
+        options.typeCheck = opts.typeCheck ? "full" : "none";
+    }
+    const aliases: compiler.Aliases = { ...configOptions.aliases, ...opts.alias };
+    for (const specifier of opts.stub) {
+        aliases[specifier] = false;
+    }
+    options.aliases = aliases;
+    options.externals = [...(configOptions.externals ?? []), ...opts.external];
+    options.loaders = { ...configOptions.loaders, ...opts.loader };
+    options.defines = { ...configOptions.defines, ...opts.define };
+    options.inlineEnv = [...(configOptions.inlineEnv ?? []), ...opts.inlineEnv];
+    options.sizeBudgets = {
+        total: opts.maxSize ?? configOptions.sizeBudgets?.total,
+        packages: { ...configOptions.sizeBudgets?.packages, ...opts.maxPackageSize },
+    };
+
+    return options;
+}
+
+function printStats(stats: compiler.BundleStats) {
+    console.error("    Size   Minified  Asset");
+    for (const { name, package: pkgName, rawSize, minifiedSize, importers } of stats.assets) {
+        const origin = (pkgName !== null) ? ` (${pkgName})` : "";
+        console.error(`${formatSize(rawSize).padStart(8)} ${formatSize(minifiedSize).padStart(10)}  ${name}${origin}`);
+        for (const importer of importers) {
+            console.error(`${"".padStart(21)}  ← ${importer}`);
+        }
+    }
+
+    if (stats.packages.length > 0) {
+        console.error("\n    Size  Package");
+        for (const { name, size } of stats.packages) {
+            console.error(`${formatSize(size).padStart(8)}  ${name}`);
+        }
+    }
+
+    console.error(`\nTotal: ${formatSize(stats.totalSize)}`);
+}
+
+function printStatsAsJson(stats: compiler.BundleStats) {
+    console.error(JSON.stringify(stats, null, 2));
+}
+
+function printInclusion(result: compiler.BuildResult, modules: string[]) {
+    for (const module of modules) {
+        const chains = compiler.explainInclusion(result, module);
+        if (chains.length === 0) {
+            console.error(`${module} is not included in the bundle`);
+            continue;
+        }
+
+        console.error(`${module} is included through:`);
+        for (const chain of chains) {
+            console.error(`  ${chain.join(" → ")}`);
+        }
+    }
+}
+
+function formatSize(size: number): string {
+    if (size < 1024) {
+        return `${size} B`;
+    }
+    if (size < 1024 * 1024) {
+        return `${(size / 1024).toFixed(1)} kB`;
+    }
+    return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function parseAlias(value: string, previous: compiler.Aliases): compiler.Aliases {
+    const separatorIndex = value.indexOf("=");
+    if (separatorIndex === -1) {
+        throw new InvalidArgumentError("expected <specifier>=<target>");
+    }
+
+    return { ...previous, [value.substring(0, separatorIndex)]: value.substring(separatorIndex + 1) };
+}
+
+function parseLoader(value: string, previous: compiler.Loaders): compiler.Loaders {
+    const separatorIndex = value.indexOf("=");
+    if (separatorIndex === -1) {
+        throw new InvalidArgumentError("expected <extension>=<loader>");
+    }
+
+    const extension = value.substring(0, separatorIndex);
+    if (!extension.startsWith(".")) {
+        throw new InvalidArgumentError("extension must start with a dot");
+    }
+    const loader = value.substring(separatorIndex + 1);
+    if (loader !== "text" && loader !== "binary" && loader !== "cmodule") {
+        throw new InvalidArgumentError("loader must be text, binary or cmodule");
+    }
+
+    return { ...previous, [extension]: loader };
+}
+
+function parseDefine(value: string, previous: compiler.Defines): compiler.Defines {
+    const separatorIndex = value.indexOf("=");
+    if (separatorIndex === -1) {
+        throw new InvalidArgumentError("expected <key>=<value>");
+    }
+
+    const key = value.substring(0, separatorIndex);
+    const rawValue = value.substring(separatorIndex + 1);
+    let defineValue: compiler.DefineValue;
+    try {
+        defineValue = JSON.parse(rawValue);
+        if (typeof defineValue === "object" && defineValue !== null) {
+            throw new InvalidArgumentError("only primitive values may be defined");
+        }
+    } catch (e) {
+        if (e instanceof InvalidArgumentError) {
+            throw e;
+        }
+        defineValue = rawValue;
+    }
+
+    return { ...previous, [key]: defineValue };
+}
+
+function collect(value: string, previous: string[]): string[] {
+    return [...previous, value];
+}
 
-    function writeBundle(bundle: string): void {
-        fs.mkdirSync(outputDir, { recursive: true });
-        fs.writeFileSync(fullOutputPath, bundle!);
+function parseSize(value: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*([kKmM]?)B?$/.exec(value);
+    if (match === null) {
+        throw new InvalidArgumentError("expected a size such as 4096, 64k or 1M");
     }
+
+    const multipliers: { [suffix: string]: number } = { "": 1, "k": 1024, "m": 1024 * 1024 };
+    return Math.floor(parseFloat(match[1]) * multipliers[match[2].toLowerCase()]);
+}
+
+function parsePackageSize(value: string, previous: { [name: string]: number }): { [name: string]: number } {
+    const separatorIndex = value.lastIndexOf("=");
+    if (separatorIndex === -1) {
+        throw new InvalidArgumentError("expected <name>=<size>");
+    }
+
+    return {
+        ...previous,
+        [value.substring(0, separatorIndex)]: parseSize(value.substring(separatorIndex + 1)),
+    };
+}
+
+function inspect(bundlePath: string) {
+    const { assets, externals = [] } = compiler.parseBundle(fs.readFileSync(bundlePath, "utf-8"));
+
+    const sizes = assets.map(({ data }) => Buffer.byteLength(data));
+    const total = sizes.reduce((sum, size) => sum + size, 0);
+    const sizeWidth = total.toString().length;
+
+    assets.forEach(({ name, aliases }, i) => {
+        console.log(`${sizes[i].toString().padStart(sizeWidth)} ${name}`);
+        for (const alias of aliases) {
+            console.log(`${"".padStart(sizeWidth)} ↻ ${alias}`);
+        }
+    });
+    for (const name of externals) {
+        console.log(`${"".padStart(sizeWidth)} ⇢ ${name}`);
+    }
+    console.log(`${total} bytes in ${assets.length} assets`);
 }
 
-try {
-    main();
-} catch (e) {
-    console.error(e);
-    process.exitCode = 1;
+function extract(bundlePath: string, opts: ExtractOptions) {
+    const { assets } = compiler.parseBundle(fs.readFileSync(bundlePath, "utf-8"));
+
+    const outputDir = fsPath.resolve(opts.directory);
+    for (const { name, data } of assets) {
+        const path = fsPath.join(outputDir, name);
+        if (!path.startsWith(outputDir + fsPath.sep)) {
+            throw new Error(`refusing to extract ${name} outside of ${outputDir}`);
+        }
+        fs.mkdirSync(fsPath.dirname(path), { recursive: true });
+        fs.writeFileSync(path, data);
+    }
 }
+
+main()
+    .catch(e => {
+        if (!compiler.isCompilationFailedError(e)) {
+            console.error(e);
+        }
+        process.exitCode = 1;
+    });
@@ -2,59 +2,335 @@ import { Buffer } from "buffer";
 import { cjsToEsmTransformer } from "../ext/cjstoesm.js";
 import * as crosspath from "@frida/crosspath";
 import EventEmitter from "events";
+import { builtinModules } from "module";
+import { performance } from "perf_hooks";
 import process from "process";
 import { check as checkIdentifier } from "@frida/reserved-words";
-import { minify, MinifyOptions, SourceMapOptions } from "@frida/terser";
+import { MinifyOptions, SourceMapOptions } from "@frida/terser";
+import { GenMapping, maybeAddMapping, setSourceContent, toEncodedMap } from "@jridgewell/gen-mapping";
+import {
+    TraceMap,
+    SourceMapSegment,
+    decodedMap,
+    eachMapping,
+    encodedMap,
+    originalPositionFor,
+    sourceContentFor,
+} from "@jridgewell/trace-mapping";
+import { createWorkerMinifier, Minifier, MinifyJob, MinifyJobResult, runMinifyJob } from "./minifier.js";
 import TypedEmitter from "typed-emitter";
 import ts from "../ext/typescript.js";
 
 const compilerRoot = detectCompilerRoot();
 
-const sourceTransformers: ts.CustomTransformers = {
-    after: [
-        useStrictRemovalTransformer(),
-    ]
-};
+const stubModuleDirName = ".stubs";
+
+const bundleMagic = "📦\n";
+const bundleSeparator = Buffer.from("\n✄\n");
+
+const cacheFormatVersion = 1;
 
 export function build(options: BuildOptions): string {
+    return compile(options).bundle;
+}
+
+export function compile(options: BuildOptions): BuildResult {
+    const session = createBuildSession(normalizeOptions(options));
+    session.typeCheck();
+    session.emit();
+    return session.finish(session.bundler.bundle(session.program));
+}
+
+export function check(options: BuildOptions): ts.Diagnostic[] {
+    return createBuildSession({ ...normalizeOptions(options), typeCheck: "full" }).check();
+}
+
+export async function buildAsync(options: BuildOptions, { signal }: AsyncBuildOptions = {}): Promise<BuildResult> {
+    throwIfAborted(signal);
+
     options = normalizeOptions(options);
 
+    // Without compression, stats still need every module minified to report its minified size.
+    const minifier = (options.compression === "terser" || shouldCollectStats(options)) ? createWorkerMinifier() : null;
+    const abortEvents = signal as AbortSignalEvents | undefined;
+    const onAbort = () => minifier?.dispose();
+    abortEvents?.addEventListener("abort", onAbort);
+
+    try {
+        const session = createBuildSession(options, makeCancellationToken(signal));
+        await yieldToEventLoop(signal);
+        session.typeCheck();
+        await yieldToEventLoop(signal);
+        session.emit();
+        await yieldToEventLoop(signal);
+        return session.finish(await session.bundler.bundleAsync(session.program, minifier, signal));
+    } catch (e) {
+        if (signal?.aborted) {
+            throw makeAbortError();
+        }
+        throw e;
+    } finally {
+        abortEvents?.removeEventListener("abort", onAbort);
+        minifier?.dispose();
+    }
+}
+
+function createBuildSession(options: BuildOptions, cancellationToken?: ts.CancellationToken): BuildSession {
+    const startTime = performance.now();
+
     const entrypoint = deriveEntrypoint(options);
     const outputOptions = makeOutputOptions(options);
-    const { projectRoot, assets, system, onDiagnostic } = options;
+    const { projectRoot, assets, system, onDiagnostic, typeCheck = "full" } = options;
+
+    const diagnostics: ts.Diagnostic[] = [];
+    const reportDiagnostic = (diagnostic: ts.Diagnostic): void => {
+        diagnostics.push(diagnostic);
+        onDiagnostic?.(diagnostic);
+    };
 
     const compilerOpts = makeCompilerOptions(projectRoot, system, outputOptions);
+    const resolverOptions = makeResolverOptions(options, compilerOpts);
+    const sourceTransformers = makeSourceTransformers(outputOptions);
+
+    const { cache } = outputOptions;
+    const buildInfoKey = (cache !== null && typeCheck !== "none")
+        ? cache.keyFor("buildinfo", [entrypoint.input, compilerOptionsCacheInput(compilerOpts, system)])
+        : null;
+    const buildInfoPath = crosspath.join(projectRoot, ".frida-compile.tsbuildinfo");
+    if (buildInfoKey !== null) {
+        compilerOpts.incremental = true;
+        compilerOpts.tsBuildInfoFile = buildInfoPath;
+    }
+
     const compilerHost = ts.createIncrementalCompilerHost(compilerOpts, system);
+    if (buildInfoKey !== null) {
+        const { readFile } = compilerHost;
+        compilerHost.readFile = fileName => {
+            if (fileName !== buildInfoPath) {
+                return readFile(fileName);
+            }
+            const buildInfo = cache!.read(buildInfoKey);
+            return (typeof buildInfo === "string") ? buildInfo : undefined;
+        };
+    }
     options.onCompilerHostCreated?.(compilerHost);
 
-    const program = ts.createProgram({
+    const builderProgram = ts.createIncrementalProgram({
         rootNames: [entrypoint.input],
         options: compilerOpts,
         host: compilerHost
     });
-    const preEmitDiagnostics = ts.getPreEmitDiagnostics(program);
-    if (onDiagnostic !== undefined) {
-        for (const diagnostic of preEmitDiagnostics) {
-            onDiagnostic(diagnostic);
+    const program = builderProgram.getProgram();
+
+    const bundler = createBundler(entrypoint, projectRoot, assets, system, outputOptions, resolverOptions);
+    bundler.events.on("diagnostic", reportDiagnostic);
+    if (options.onStats !== undefined) {
+        bundler.events.on("stats", options.onStats);
+    }
+
+    let typeCheckTime = 0;
+    let emitTime = 0;
+
+    function reportPreEmitDiagnostics(): readonly ts.Diagnostic[] {
+        const typeCheckStart = performance.now();
+        const preEmitDiagnostics = getPreEmitDiagnostics(builderProgram, typeCheck, cancellationToken);
+        typeCheckTime = performance.now() - typeCheckStart;
+        preEmitDiagnostics.forEach(reportDiagnostic);
+        return preEmitDiagnostics;
+    }
+
+    return {
+        program,
+        bundler,
+        typeCheck(): void {
+            const preEmitDiagnostics = reportPreEmitDiagnostics();
+            if (preEmitDiagnostics.some(({ category }) => category === ts.DiagnosticCategory.Error)) {
+                throw makeCompilationFailedError();
+            }
+        },
+        check(): ts.Diagnostic[] {
+            reportPreEmitDiagnostics();
+            bundler.resolve(program);
+            return diagnostics;
+        },
+        emit(): void {
+            const emitStart = performance.now();
+            let buildInfo: string | null = null;
+            const writeFile: ts.WriteFileCallback = (fileName, data, writeByteOrderMark) => {
+                if (fileName === buildInfoPath) {
+                    buildInfo = data;
+                } else {
+                    system.writeFile(fileName, data, writeByteOrderMark);
+                }
+            };
+            const emitResult = (typeCheck === "none")
+                ? transpileProgram(program, sourceTransformers, writeFile)
+                : mergeEmitResults(program.emit(undefined, writeFile, cancellationToken, undefined, sourceTransformers),
+                    transpileExternalProgramSources(program, sourceTransformers, writeFile));
+            emitTime = performance.now() - emitStart;
+            emitResult.diagnostics.forEach(reportDiagnostic);
+            if (emitResult.emitSkipped || emitResult.diagnostics.some(({ category }) => category === ts.DiagnosticCategory.Error)) {
+                throw makeCompilationFailedError();
+            }
+
+            if (buildInfoKey !== null && buildInfo !== null) {
+                cache!.write(buildInfoKey, buildInfo);
+            }
+        },
+        finish(result: BundlerResult): BuildResult {
+            return {
+                bundle: result.bundle,
+                entrypoint: result.entrypoint,
+                assets: result.assets,
+                dependencies: result.dependencies,
+                diagnostics,
+                timings: {
+                    typeCheck: typeCheckTime,
+                    emit: emitTime,
+                    bundle: result.timings.bundle,
+                    minify: result.timings.minify,
+                    total: performance.now() - startTime,
+                },
+            };
+        }
+    };
+}
+
+interface BuildSession {
+    program: ts.Program;
+    bundler: Bundler;
+    typeCheck(): void;
+    check(): ts.Diagnostic[];
+    emit(): void;
+    finish(result: BundlerResult): BuildResult;
+}
+
+interface AbortSignalEvents {
+    addEventListener(type: "abort", listener: () => void): void;
+    removeEventListener(type: "abort", listener: () => void): void;
+}
+
+function makeCancellationToken(signal: AbortSignal | undefined): ts.CancellationToken | undefined {
+    if (signal === undefined) {
+        return undefined;
+    }
+
+    return {
+        isCancellationRequested(): boolean {
+            return signal.aborted;
+        },
+        throwIfCancellationRequested(): void {
+            if (signal.aborted) {
+                throw new ts.OperationCanceledException();
+            }
         }
+    };
+}
+
+function yieldToEventLoop(signal: AbortSignal | undefined): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve))
+        .then(() => throwIfAborted(signal));
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) {
+        throw makeAbortError();
     }
-    if (preEmitDiagnostics.some(({ category }) => category === ts.DiagnosticCategory.Error)) {
-        throw new Error("compilation failed");
+}
+
+function makeAbortError(): Error {
+    const error = new Error("build aborted");
+    error.name = "AbortError";
+    return error;
+}
+
+function makeCompilationFailedError(): Error {
+    const error = new Error("compilation failed");
+    error.name = "CompilationFailedError";
+    return error;
+}
+
+export function isCompilationFailedError(e: unknown): boolean {
+    return e instanceof Error && e.name === "CompilationFailedError";
+}
+
+function getPreEmitDiagnostics(program: ts.BuilderProgram, typeCheck: TypeCheck,
+        cancellationToken?: ts.CancellationToken): readonly ts.Diagnostic[] {
+    const syntacticDiagnostics = [
+        ...program.getConfigFileParsingDiagnostics(),
+        ...program.getOptionsDiagnostics(cancellationToken),
+        ...program.getSyntacticDiagnostics(undefined, cancellationToken),
+    ];
+    if (typeCheck === "none") {
+        return ts.sortAndDeduplicateDiagnostics(syntacticDiagnostics);
     }
 
-    const bundler = createBundler(entrypoint, projectRoot, assets, system, outputOptions);
+    const { declaration, composite } = program.getCompilerOptions();
+    const semanticDiagnostics = [
+        ...program.getGlobalDiagnostics(cancellationToken),
+        ...program.getSemanticDiagnostics(undefined, cancellationToken),
+        ...((declaration || composite) ? program.getDeclarationDiagnostics(undefined, cancellationToken) : []),
+    ];
+
+    return ts.sortAndDeduplicateDiagnostics([
+        ...syntacticDiagnostics,
+        ...((typeCheck === "warn")
+            ? semanticDiagnostics.map(d => ({ ...d, category: ts.DiagnosticCategory.Warning }))
+            : semanticDiagnostics),
+    ]);
+}
+
+function transpileProgram(program: ts.Program, transformers: ts.CustomTransformers, writeFile: ts.WriteFileCallback,
+        transpiledFiles?: WeakSet<ts.SourceFile>,
+        include: (sf: ts.SourceFile) => boolean = sf => isBundledProgramSource(program, sf)): ts.EmitResult {
+    const compilerOptions = { ...program.getCompilerOptions(), isolatedModules: true };
+    const rootDir = compilerOptions.rootDir!;
+    const outDir = compilerOptions.outDir!;
+
+    const diagnostics: ts.Diagnostic[] = [];
+    for (const sf of program.getSourceFiles()) {
+        if (!include(sf) || transpiledFiles?.has(sf)) {
+            continue;
+        }
+        transpiledFiles?.add(sf);
+
+        const { outputText, sourceMapText, diagnostics: fileDiagnostics = [] } = ts.transpileModule(sf.text, {
+            compilerOptions,
+            fileName: sf.fileName,
+            reportDiagnostics: true,
+            transformers,
+        });
+        diagnostics.push(...fileDiagnostics);
 
-    const emitResult = program.emit(undefined, undefined, undefined, undefined, sourceTransformers);
-    if (onDiagnostic !== undefined) {
-        for (const diagnostic of emitResult.diagnostics) {
-            onDiagnostic(diagnostic);
+        const outputPath = crosspath.join(outDir, jsFilePathFromSourcePath(sf.fileName).substring(rootDir.length));
+        writeFile(outputPath, outputText, false);
+        if (sourceMapText !== undefined) {
+            writeFile(outputPath + ".map", sourceMapText, false);
         }
     }
-    if (emitResult.emitSkipped || emitResult.diagnostics.some(({ category }) => category === ts.DiagnosticCategory.Error)) {
-        throw new Error("compilation failed");
+
+    return { emitSkipped: false, diagnostics };
+}
+
+function transpileExternalProgramSources(program: ts.Program, transformers: ts.CustomTransformers, writeFile: ts.WriteFileCallback,
+        transpiledFiles?: WeakSet<ts.SourceFile>): ts.EmitResult {
+    return transpileProgram(program, transformers, writeFile, transpiledFiles,
+        sf => program.isSourceFileFromExternalLibrary(sf) && isBundledProgramSource(program, sf));
+}
+
+function isBundledProgramSource(program: ts.Program, sf: ts.SourceFile): boolean {
+    if (sf.isDeclarationFile || sf.fileName.endsWith(".json")) {
+        return false;
     }
+    // Sources found through package imports count as external libraries, which TypeScript does not emit.
+    return !program.isSourceFileFromExternalLibrary(sf) || !sf.fileName.includes("/node_modules/");
+}
 
-    return bundler.bundle(program);
+function mergeEmitResults(a: ts.EmitResult, b: ts.EmitResult): ts.EmitResult {
+    return {
+        emitSkipped: a.emitSkipped || b.emitSkipped,
+        diagnostics: [...a.diagnostics, ...b.diagnostics],
+    };
 }
 
 export function watch(options: WatchOptions): TypedEmitter<WatcherEvents> {
@@ -62,51 +338,142 @@ export function watch(options: WatchOptions): TypedEmitter<WatcherEvents> {
 
     const entrypoint = deriveEntrypoint(options);
     const outputOptions = makeOutputOptions(options);
-    const { projectRoot, assets, system, onDiagnostic } = options;
+    const { projectRoot, onDiagnostic, checkOnly = false } = options;
+    const system: System = {
+        ...options.system,
+        readFile(path, encoding) {
+            const contents = options.system.readFile(path, encoding);
+            if (contents !== undefined && crosspath.basename(path) === "package.json") {
+                watchPackageFile(path);
+            }
+            return contents;
+        },
+    };
+    const typeCheck = checkOnly ? "full" : (options.typeCheck ?? "full");
 
     const events = new EventEmitter() as TypedEmitter<WatcherEvents>;
 
+    const sourceTransformers = makeSourceTransformers(outputOptions);
+
+    let startTime = performance.now();
+    let diagnostics: ts.Diagnostic[] = [];
+    let bundleDiagnostics: ts.Diagnostic[] = [];
+    let typeCheckTime = 0;
+    let emitTime = 0;
+    let transpiledFiles = new WeakSet<ts.SourceFile>();
+    const reportDiagnostic = (diagnostic: ts.Diagnostic): void => {
+        diagnostics.push(diagnostic);
+        onDiagnostic?.(diagnostic);
+    };
+    const reportBundleDiagnostic = (diagnostic: ts.Diagnostic): void => {
+        bundleDiagnostics.push(diagnostic);
+        onDiagnostic?.(diagnostic);
+    };
+
     const origCreateProgram: any = ts.createEmitAndSemanticDiagnosticsBuilderProgram;
     const createProgram: ts.CreateProgram<ts.EmitAndSemanticDiagnosticsBuilderProgram> = (...args: any[]): ts.EmitAndSemanticDiagnosticsBuilderProgram => {
         events.emit("compilationStarting");
 
+        startTime = performance.now();
+        diagnostics = [];
+        emitTime = 0;
+
         const program: ts.EmitAndSemanticDiagnosticsBuilderProgram = origCreateProgram(...args);
 
-        if (onDiagnostic !== undefined) {
-            const preEmitDiagnostics = ts.getPreEmitDiagnostics(program.getProgram());
-            for (const diagnostic of preEmitDiagnostics) {
-                onDiagnostic(diagnostic);
-            }
+        const typeCheckStart = performance.now();
+        const preEmitDiagnostics = getPreEmitDiagnostics(program, typeCheck);
+        typeCheckTime = performance.now() - typeCheckStart;
+        preEmitDiagnostics.forEach(reportDiagnostic);
+
+        if (typeCheck === "none") {
+            program.getGlobalDiagnostics = () => [];
+            program.getSemanticDiagnostics = () => [];
         }
 
         const origEmit = program.emit;
         program.emit = (targetSourceFile, writeFile, cancellationToken, emitOnlyDtsFiles, customTransformers) => {
-            const emitResult = origEmit(targetSourceFile, writeFile, cancellationToken, emitOnlyDtsFiles, sourceTransformers);
-
-            if (onDiagnostic !== undefined) {
-                for (const diagnostic of emitResult.diagnostics) {
-                    onDiagnostic(diagnostic);
-                }
+            if (checkOnly) {
+                return { emitSkipped: true, diagnostics: [] };
             }
 
+            const emitStart = performance.now();
+            const emitResult = (typeCheck === "none")
+                ? transpileProgram(program.getProgram(), sourceTransformers, writeFile ?? system.writeFile, transpiledFiles)
+                : mergeEmitResults(origEmit(targetSourceFile, writeFile, cancellationToken, emitOnlyDtsFiles, sourceTransformers),
+                    transpileExternalProgramSources(program.getProgram(), sourceTransformers, writeFile ?? system.writeFile,
+                        transpiledFiles));
+            emitTime += performance.now() - emitStart;
+
+            emitResult.diagnostics.forEach(reportDiagnostic);
+
             return emitResult;
         };
 
         return program;
     };
 
-    const compilerOpts = makeCompilerOptions(projectRoot, system, outputOptions);
-    const compilerHost = ts.createWatchCompilerHost([entrypoint.input], compilerOpts, system, createProgram);
-    options.onWatchCompilerHostCreated?.(compilerHost);
-
     let state: "dirty" | "clean" = "dirty";
+    let bundling = false;
+    let rebundleRequested = false;
     let timer: NodeJS.Timeout | null = null;
+    let reconfigureTimer: NodeJS.Timeout | null = null;
+
+    const fileWatchers = new Map<string, ts.FileWatcher>();
+    const configWatchers = new Map<string, ts.FileWatcher>();
+    const directoryWatchers = new Map<string, ts.FileWatcher>();
+
+    let assets = options.assets;
+    // Read through the caller's system, as package.json files cannot be watched before the host exists.
+    let compilerOpts = makeCompilerOptions(projectRoot, options.system, outputOptions);
+    let compilerHost = createWatchCompilerHost();
+    let bundler = createWatchBundler();
+    // Without compression, stats still need every module minified to report its minified size.
+    const minifier = (!checkOnly && (outputOptions.compression === "terser" || outputOptions.collectStats))
+        ? createWorkerMinifier()
+        : null;
+    let watchProgram: ts.WatchOfFilesAndCompilerOptions<ts.EmitAndSemanticDiagnosticsBuilderProgram> | null = null;
+
+    watchConfigFiles();
+    watchNodeModulesDir(assets.projectNodeModulesDir);
+
+    process.nextTick(() => {
+        watchProgram = ts.createWatchProgram(compilerHost);
+    });
+
+    function createWatchBundler(): Bundler {
+        const resolverOptions = makeResolverOptions(options, compilerOpts);
+        const b = createBundler(entrypoint, projectRoot, assets, system, outputOptions, resolverOptions);
+        b.events.on("diagnostic", reportBundleDiagnostic);
+        if (options.onStats !== undefined) {
+            b.events.on("stats", options.onStats);
+        }
+        b.events.on("externalSourceFileAdded", file => watchExternalFile(file.fileName));
+        b.events.on("dataFileAdded", watchExternalFile);
+        return b;
+    }
 
-    const bundler = createBundler(entrypoint, projectRoot, assets, system, outputOptions);
-    bundler.events.on("externalSourceFileAdded", file => {
-        compilerHost.watchFile(file.fileName, () => {
-            state = "dirty";
-            bundler.invalidate(file.fileName);
+    function createWatchCompilerHost(): ts.WatchCompilerHostOfFilesAndCompilerOptions<ts.EmitAndSemanticDiagnosticsBuilderProgram> {
+        // Route diagnostics through onDiagnostic and drop watch status messages, so nothing is written to the console.
+        const host = ts.createWatchCompilerHost([entrypoint.input], compilerOpts, system, createProgram, reportDiagnostic,
+            () => {});
+        options.onWatchCompilerHostCreated?.(host);
+
+        // Our createProgram() already reports the program's diagnostics, so emit without TypeScript's own reporting.
+        host.afterProgramCreate = program => {
+            program.emit();
+            process.nextTick(rebundle);
+        };
+
+        return host;
+    }
+
+    function watchExternalFile(path: string): void {
+        if (fileWatchers.has(path)) {
+            return;
+        }
+        fileWatchers.set(path, compilerHost.watchFile(path, () => {
+            markDirty();
+            bundler.invalidate(path);
             if (timer !== null) {
                 return;
             }
@@ -114,34 +481,158 @@ export function watch(options: WatchOptions): TypedEmitter<WatcherEvents> {
                 timer = null;
                 rebundle();
             }, 250);
-        });
-    });
+        }));
+    }
 
-    const origPostProgramCreate = compilerHost.afterProgramCreate!;
-    compilerHost.afterProgramCreate = program => {
-        origPostProgramCreate(program);
-        process.nextTick(rebundle);
-    };
+    function watchConfigFiles(): void {
+        const configFile = compilerOpts.configFile as ts.TsConfigSourceFile | undefined;
+        watchConfigFile(crosspath.join(projectRoot, "tsconfig.json"));
+        for (const path of configFile?.extendedSourceFiles ?? []) {
+            watchConfigFile(crosspath.ensurePosix(path));
+        }
+    }
 
-    let watchProgram: ts.WatchOfFilesAndCompilerOptions<ts.EmitAndSemanticDiagnosticsBuilderProgram>;
-    process.nextTick(() => {
+    function watchConfigFile(path: string): void {
+        if (configWatchers.has(path)) {
+            return;
+        }
+        configWatchers.set(path, compilerHost.watchFile(path, scheduleReconfigure));
+    }
+
+    function watchPackageFile(path: string): void {
+        watchConfigFile(path);
+
+        const pkgDir = crosspath.dirname(path);
+        if (pkgDir.includes("/node_modules/")) {
+            const nestedDir = crosspath.join(pkgDir, "node_modules");
+            if (system.directoryExists(nestedDir)) {
+                watchNodeModulesDir(nestedDir);
+            }
+        }
+    }
+
+    function watchNodeModulesDir(dir: string): void {
+        watchDirectory(dir);
+        if (!system.directoryExists(dir)) {
+            return;
+        }
+        for (const name of system.getDirectories(dir)) {
+            if (name.startsWith("@")) {
+                watchDirectory(crosspath.join(dir, name));
+            }
+        }
+    }
+
+    function watchDirectory(dir: string): void {
+        if (directoryWatchers.has(dir)) {
+            return;
+        }
+        directoryWatchers.set(dir, compilerHost.watchDirectory(dir, scheduleReconfigure, false));
+    }
+
+    function scheduleReconfigure(): void {
+        markDirty();
+        if (reconfigureTimer !== null) {
+            return;
+        }
+        reconfigureTimer = setTimeout(() => {
+            reconfigureTimer = null;
+            reconfigure();
+        }, 250);
+    }
+
+    function reconfigure(): void {
+        if (timer !== null) {
+            clearTimeout(timer);
+            timer = null;
+        }
+
+        try {
+            assets = refreshAssets(assets, projectRoot, system);
+            compilerOpts = makeCompilerOptions(projectRoot, system, outputOptions);
+        } catch (e) {
+            reportBundleDiagnostic(makeBundlerDiagnostic(BundlerDiagnosticCode.InvalidConfiguration,
+                `Unable to reconfigure: ${(e as Error).message}`));
+            return;
+        }
+        watchConfigFiles();
+        for (const dir of directoryWatchers.keys()) {
+            if (crosspath.basename(dir) === "node_modules") {
+                watchNodeModulesDir(dir);
+            }
+        }
+
+        watchProgram?.close();
+        transpiledFiles = new WeakSet();
+        bundler = createWatchBundler();
+        compilerHost = createWatchCompilerHost();
         watchProgram = ts.createWatchProgram(compilerHost);
-    });
+    }
+
+    function markDirty(): void {
+        state = "dirty";
+        startTime = performance.now();
+        typeCheckTime = 0;
+        emitTime = 0;
+    }
 
     let previousBundle: string | null = null;
 
+    function emitBundle(result: BundlerResult): void {
+        const { bundle } = result;
+        events.emit("bundleBuilt", {
+            bundle,
+            entrypoint: result.entrypoint,
+            assets: result.assets,
+            dependencies: result.dependencies,
+            diagnostics: [...diagnostics, ...bundleDiagnostics],
+            timings: {
+                typeCheck: typeCheckTime,
+                emit: emitTime,
+                bundle: result.timings.bundle,
+                minify: result.timings.minify,
+                total: performance.now() - startTime,
+            },
+        });
+        if (bundle !== previousBundle) {
+            events.emit("bundleUpdated", bundle);
+            previousBundle = bundle;
+        }
+    }
+
     function rebundle(): void {
+        if (bundling) {
+            rebundleRequested = true;
+            return;
+        }
+        bundling = true;
         state = "clean";
+        bundleDiagnostics = [];
+        tryRebundle().finally(() => {
+            events.emit("compilationFinished");
+            bundling = false;
+            if (rebundleRequested) {
+                rebundleRequested = false;
+                rebundle();
+            }
+        });
+    }
+
+    async function tryRebundle(): Promise<void> {
         try {
-            const bundle = bundler.bundle(watchProgram.getProgram().getProgram());
-            if (bundle !== previousBundle) {
-                events.emit("bundleUpdated", bundle);
-                previousBundle = bundle;
+            const program = watchProgram!.getProgram().getProgram();
+            if (checkOnly) {
+                bundler.resolve(program);
+                events.emit("checkCompleted", [...diagnostics, ...bundleDiagnostics]);
+            } else {
+                emitBundle(await bundler.bundleAsync(program, minifier));
             }
         } catch (e) {
-            console.error("Failed to bundle:", e);
+            if (!isCompilationFailedError(e)) {
+                reportBundleDiagnostic(makeBundlerDiagnostic(BundlerDiagnosticCode.UnexpectedError,
+                    `${checkOnly ? "Unable to check" : "Unable to bundle"}: ${(e as Error).message}`));
+            }
         }
-        events.emit("compilationFinished");
     }
 
     return events;
@@ -151,22 +642,112 @@ export interface Options {
     projectRoot: string;
     entrypoint: string;
     assets: Assets;
-    system: ts.System;
+    system: System;
     sourceMaps?: SourceMaps;
     compression?: Compression;
+    format?: OutputFormat;
+    conditions?: string[];
+    aliases?: Aliases;
+    externals?: string[];
+    loaders?: Loaders;
+    defines?: Defines;
+    inlineEnv?: string[];
+    sizeBudgets?: SizeBudgets;
+    typeCheck?: TypeCheck;
+    cache?: BuildCache;
+    projectConfig?: ProjectConfig | null;
     onDiagnostic?(diagnostic: ts.Diagnostic): void;
+    onStats?(stats: BundleStats): void;
 }
 
 export interface BuildOptions extends Options {
     onCompilerHostCreated?(compilerHost: ts.CompilerHost): void;
 }
 
+export interface AsyncBuildOptions {
+    signal?: AbortSignal;
+}
+
 export interface WatchOptions extends Options {
+    checkOnly?: boolean;
     onWatchCompilerHostCreated?(compilerHost: ts.WatchCompilerHostOfFilesAndCompilerOptions<ts.EmitAndSemanticDiagnosticsBuilderProgram>): void;
 }
 
+export type System = ts.System & {
+    readBinaryFile?(path: string): Uint8Array | undefined;
+};
+
 export type SourceMaps = "included" | "omitted";
 export type Compression = "none" | "terser";
+export type OutputFormat = "bundle" | "script";
+export type TypeCheck = "full" | "none" | "warn";
+
+export type Aliases = { [specifier: string]: string | false };
+
+export type Loaders = { [extension: string]: Loader };
+export type Loader = "text" | "binary" | "cmodule";
+
+export type Defines = { [expression: string]: DefineValue };
+export type DefineValue = string | number | boolean | null | undefined;
+
+export interface BuildCache {
+    get(key: string): string | undefined;
+    set(key: string, value: string): void;
+}
+
+export interface SizeBudgets {
+    total?: number;
+    packages?: { [name: string]: number };
+}
+
+export interface BuildResult {
+    bundle: string;
+    entrypoint: string;
+    assets: AssetInfo[];
+    dependencies: DependencyGraph;
+    diagnostics: ts.Diagnostic[];
+    timings: BuildTimings;
+}
+
+export interface AssetInfo {
+    name: string;
+    size: number;
+    type: AssetType;
+    aliases: string[];
+    sourceMap: string | null;
+}
+
+export type AssetType = ModuleType | DataLoader;
+
+export type DependencyGraph = { [asset: string]: string[] };
+
+export interface BuildTimings {
+    typeCheck: number;
+    emit: number;
+    bundle: number;
+    minify: number;
+    total: number;
+}
+
+export interface BundleStats {
+    totalSize: number;
+    assets: AssetStats[];
+    packages: PackageStats[];
+}
+
+export interface AssetStats {
+    name: string;
+    package: string | null;
+    size: number;
+    rawSize: number;
+    minifiedSize: number;
+    importers: string[];
+}
+
+export interface PackageStats {
+    name: string;
+    size: number;
+}
 
 export interface Assets {
     projectNodeModulesDir: string;
@@ -175,10 +756,39 @@ export interface Assets {
     shims: Map<string, string>;
 }
 
+export interface Bundle {
+    assets: BundleAsset[];
+    externals?: string[];
+}
+
+export interface BundleAsset {
+    name: string;
+    aliases: string[];
+    data: string;
+}
+
+export interface ProjectConfig {
+    path: string;
+    entrypoints: EntrypointConfig[];
+    options: ConfigurableOptions;
+    shims: Map<string, string>;
+}
+
+export interface EntrypointConfig {
+    input: string;
+    output: string;
+}
+
+export type ConfigurableOptions = Partial<Pick<Options,
+    "sourceMaps" | "compression" | "format" | "typeCheck" | "conditions" | "aliases" | "externals" | "loaders" | "defines" | "inlineEnv" |
+    "sizeBudgets">>;
+
 export type WatcherEvents = {
     compilationStarting: () => void,
     compilationFinished: () => void,
     bundleUpdated: (bundle: string) => void,
+    bundleBuilt: (result: BuildResult) => void,
+    checkCompleted: (diagnostics: ts.Diagnostic[]) => void,
 };
 
 interface EntrypointName {
@@ -189,15 +799,45 @@ interface EntrypointName {
 interface OutputOptions {
     sourceMaps: SourceMaps;
     compression: Compression;
+    format: OutputFormat;
+    defines: Map<string, DefineValue>;
+    sizeBudgets: SizeBudgets;
+    collectStats: boolean;
+    cache: CacheStore | null;
+}
+
+interface CacheStore {
+    keyFor(kind: string, input: unknown): string;
+    read(key: string): unknown;
+    write(key: string, value: unknown): void;
+}
+
+interface ResolverOptions {
+    conditions: string[];
+    aliases: Map<string, string | false>;
+    externals: string[];
+    loaders: Map<string, Loader>;
+    paths: ts.MapLike<string[]>;
+    pathsBasePath: string | null;
+    baseUrl: string | null;
+    outputLayout: OutputLayout | null;
+}
+
+interface OutputLayout {
+    rootDir: string;
+    outDir: string;
 }
 
-type ModuleType = "cjs" | "esm";
+export type ModuleType = "cjs" | "esm";
+
+export type DataLoader = "json" | Loader;
 
 interface JSModule {
     type: ModuleType;
     path: string;
     file: ts.SourceFile;
     aliases: Set<string>;
+    references: Set<string>;
 }
 
 interface ModuleReference {
@@ -205,10 +845,49 @@ interface ModuleReference {
     referrer: JSModule;
 }
 
+interface ResolvedReference {
+    assetName: string;
+    path: string;
+    needsAlias: boolean;
+}
+
+interface DataReference {
+    path: string;
+    loader: DataLoader;
+}
+
+interface ModuleGraph {
+    data: Map<string, DataReference>;
+    unresolved: Map<string, Set<string>>;
+    parents: Map<string, string>;
+}
+
+interface ProcessedAsset {
+    input: string;
+    code: string;
+    map: string | null;
+    rawSize: number;
+    minifiedSize?: number;
+}
+
+type PendingAsset = Pick<ProcessedAsset, "input" | "rawSize"> & Partial<Pick<ProcessedAsset, "code" | "map">>;
+
 function normalizeOptions<T extends Options>(options: T): T {
-    return Object.assign({}, options, {
-        projectRoot: crosspath.ensurePosix(options.projectRoot),
+    const projectRoot = crosspath.ensurePosix(options.projectRoot);
+
+    // Settings from the project config apply unless given explicitly.
+    const config = (options.projectConfig !== undefined) ? options.projectConfig : loadProjectConfig(projectRoot, options.system);
+    const configuredOptions = Object.fromEntries(Object.entries(config?.options ?? {})
+        .filter(([name]) => options[name as keyof Options] === undefined));
+    const assets = (config !== null && config.shims.size > 0)
+        ? { ...options.assets, shims: new Map([...options.assets.shims, ...config.shims]) }
+        : options.assets;
+
+    return Object.assign({}, options, configuredOptions, {
+        projectRoot,
         entrypoint: crosspath.ensurePosix(options.entrypoint),
+        assets,
+        projectConfig: config,
     });
 }
 
@@ -221,8 +900,8 @@ function deriveEntrypoint(options: Options): EntrypointName {
     }
 
     let output = input.substring(projectRoot.length);
-    if (output.endsWith(".ts")) {
-        output = output.substring(0, output.length - 2) + "js";
+    if (/\.([cm]?ts|tsx)$/.test(output)) {
+        output = jsFilePathFromSourcePath(output);
     }
 
     return { input, output };
@@ -232,32 +911,274 @@ function makeOutputOptions(options: Options): OutputOptions {
     const {
         sourceMaps = "included",
         compression = "none",
+        format = "bundle",
+        inlineEnv = [],
+        sizeBudgets = {},
     } = options;
 
-    return { sourceMaps, compression };
+    const defines = new Map<string, DefineValue>([
+        ["process.env.FRIDA_COMPILE", true],
+    ]);
+    for (const name of inlineEnv) {
+        defines.set(`process.env.${name}`, process.env[name]);
+    }
+    for (const [expression, value] of Object.entries(options.defines ?? {})) {
+        defines.set(expression, value);
+    }
+
+    const collectStats = shouldCollectStats(options);
+
+    const cache = (options.cache !== undefined) ? makeCacheStore(options.cache, options.system) : null;
+
+    return { sourceMaps, compression, format, defines, sizeBudgets, collectStats, cache };
 }
 
-export function queryDefaultAssets(projectRoot: string, sys: ts.System): Assets {
-    const projectNodeModulesDir = crosspath.join(crosspath.ensurePosix(projectRoot), "node_modules");
-    const compilerNodeModulesDir = crosspath.join(compilerRoot, "node_modules");
-    let shimDir: string;
-    if (sys.directoryExists(crosspath.join(compilerNodeModulesDir, "@frida"))) {
-        shimDir = compilerNodeModulesDir;
-    } else if (sys.directoryExists(crosspath.join(projectNodeModulesDir, "@frida"))) {
-        shimDir = projectNodeModulesDir;
-    } else {
-        const compilerParent = crosspath.dirname(compilerRoot);
-        if (crosspath.basename(compilerParent) === "node_modules" &&
-                sys.directoryExists(crosspath.join(compilerParent, "@frida"))) {
-            shimDir = compilerParent;
-        } else {
-            throw new Error("Unable to detect shim directory; please file a bug");
-        }
+function shouldCollectStats(options: Options): boolean {
+    const { sizeBudgets = {} } = options;
+    return options.onStats !== undefined ||
+        sizeBudgets.total !== undefined ||
+        Object.keys(sizeBudgets.packages ?? {}).length !== 0;
+}
+
+function makeCacheStore(cache: BuildCache, system: ts.System): CacheStore | null {
+    const hash = system.createSHA256Hash ?? system.createHash;
+    if (hash === undefined) {
+        return null;
     }
 
-    const shims = new Map([
-        ["assert", crosspath.join(shimDir, "@frida", "assert")],
-        ["base64-js", crosspath.join(shimDir, "@frida", "base64-js")],
+    const compilerVersion = JSON.parse(system.readFile(crosspath.join(compilerRoot, "package.json")) ?? "{}").version;
+    const salt = [cacheFormatVersion, compilerVersion, ts.version];
+
+    return {
+        keyFor(kind: string, input: unknown): string {
+            return kind + "-" + hash(JSON.stringify([salt, input]));
+        },
+        read(key: string): unknown {
+            const value = cache.get(key);
+            return (value !== undefined) ? JSON.parse(value) : undefined;
+        },
+        write(key: string, value: unknown): void {
+            cache.set(key, JSON.stringify(value));
+        }
+    };
+}
+
+// The parsed tsconfig.json rides along as a SourceFile, so we key on its text instead of serializing that.
+function compilerOptionsCacheInput(opts: ts.CompilerOptions, system: ts.System): unknown {
+    const { configFile, ...serializableOpts } = opts;
+    const configTexts = (configFile !== undefined)
+        ? [configFile.text, ...(configFile.extendedSourceFiles ?? []).map((path: string) => system.readFile(path) ?? null)]
+        : [];
+    return [serializableOpts, configTexts];
+}
+
+function isMinifyJobResult(value: unknown): value is MinifyJobResult {
+    return isPlainObject(value) && typeof value.code === "string" && (typeof value.map === "string" || value.map === null);
+}
+
+function isEmittedFileList(value: unknown): value is [fileName: string, data: string][] {
+    return Array.isArray(value) &&
+        value.every(entry => Array.isArray(entry) && entry.length === 2 && entry.every(e => typeof e === "string"));
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function makeResolverOptions(options: Options, compilerOpts: ts.CompilerOptions): ResolverOptions {
+    const {
+        projectRoot,
+        conditions = ["frida"],
+        externals = [],
+    } = options;
+
+    const aliases = new Map<string, string | false>();
+    for (const [specifier, target] of Object.entries(options.aliases ?? {})) {
+        if (target !== false && target.startsWith(".")) {
+            aliases.set(specifier, crosspath.join(projectRoot, target));
+        } else {
+            aliases.set(specifier, (target !== false) ? crosspath.ensurePosix(target) : false);
+        }
+    }
+
+    const loaders = new Map<string, Loader>([
+        [".c", "cmodule"],
+        ...Object.entries(options.loaders ?? {}),
+    ]);
+
+    const paths = compilerOpts.paths ?? {};
+    const baseUrl = (compilerOpts.baseUrl !== undefined) ? crosspath.ensurePosix(compilerOpts.baseUrl) : null;
+    const pathsBasePath = compilerOpts.pathsBasePath as string | undefined;
+
+    return {
+        conditions,
+        aliases,
+        externals,
+        loaders,
+        paths,
+        pathsBasePath: baseUrl ?? ((pathsBasePath !== undefined) ? crosspath.ensurePosix(pathsBasePath) : null),
+        baseUrl,
+        outputLayout: configuredOutputLayouts.get(compilerOpts) ?? null,
+    };
+}
+
+export function parseBundle(bundle: string): Bundle {
+    const rawBundle = Buffer.from(bundle);
+
+    const headerEnd = rawBundle.indexOf(bundleSeparator);
+    if (!bundle.startsWith(bundleMagic) || headerEnd === -1) {
+        throw new Error("invalid bundle: malformed header");
+    }
+
+    const assets: BundleAsset[] = [];
+    const externals: string[] = [];
+    const sizes: number[] = [];
+    const headerLines = rawBundle.toString("utf-8", Buffer.byteLength(bundleMagic), headerEnd + 1).split("\n");
+    headerLines.pop();
+    for (const line of headerLines) {
+        if (line.startsWith("↻ ")) {
+            const asset = assets[assets.length - 1];
+            if (asset === undefined) {
+                throw new Error("invalid bundle: alias without asset");
+            }
+            asset.aliases.push(line.substring(2));
+            continue;
+        }
+
+        if (line.startsWith("⇢ ")) {
+            externals.push(line.substring(2));
+            continue;
+        }
+
+        const match = /^(\d+) (.+)$/.exec(line);
+        if (match === null) {
+            throw new Error(`invalid bundle: malformed header line: ${line}`);
+        }
+        sizes.push(parseInt(match[1], 10));
+        assets.push({ name: match[2], aliases: [], data: "" });
+    }
+
+    let offset = headerEnd + bundleSeparator.length;
+    assets.forEach((asset, i) => {
+        if (i !== 0) {
+            if (!rawBundle.subarray(offset, offset + bundleSeparator.length).equals(bundleSeparator)) {
+                throw new Error(`invalid bundle: size mismatch before ${asset.name}`);
+            }
+            offset += bundleSeparator.length;
+        }
+
+        const end = offset + sizes[i];
+        if (end > rawBundle.length) {
+            throw new Error(`invalid bundle: ${asset.name} is truncated`);
+        }
+        asset.data = rawBundle.toString("utf-8", offset, end);
+        offset = end;
+    });
+    if (offset !== rawBundle.length) {
+        throw new Error("invalid bundle: trailing data");
+    }
+
+    return { assets, externals };
+}
+
+export function serializeBundle(bundle: Bundle): string {
+    const { assets, externals = [] } = bundle;
+
+    const chunks: string[] = [];
+    chunks.push(bundleMagic);
+    for (const { name, aliases, data } of assets) {
+        chunks.push(`${Buffer.byteLength(data)} ${name}\n`);
+        for (const alias of aliases) {
+            chunks.push(`↻ ${alias}\n`);
+        }
+    }
+    for (const name of externals) {
+        chunks.push(`⇢ ${name}\n`);
+    }
+    chunks.push("✄\n");
+    let i = 0;
+    for (const { data } of assets) {
+        if (i !== 0) {
+            chunks.push("\n✄\n");
+        }
+        chunks.push(data);
+        i++;
+    }
+
+    return chunks.join("");
+}
+
+export function explainInclusion(result: BuildResult, module: string): string[][] {
+    const { entrypoint, assets, dependencies } = result;
+
+    const parents = new Map<string, string>();
+    const queue = [entrypoint];
+    const visited = new Set(queue);
+    let name: string | undefined;
+    while ((name = queue.shift()) !== undefined) {
+        for (const dependency of dependencies[name] ?? []) {
+            if (!visited.has(dependency)) {
+                visited.add(dependency);
+                parents.set(dependency, name);
+                queue.push(dependency);
+            }
+        }
+    }
+
+    const chainTo = (name: string): string[] => {
+        const chain = [name];
+        let parent: string | undefined;
+        while ((parent = parents.get(chain[0])) !== undefined) {
+            chain.unshift(parent);
+        }
+        return chain;
+    };
+
+    let path = "/" + module.replace(/^\.?\//, "");
+    if (/\.([cm]?ts|tsx)$/.test(path)) {
+        path = jsFilePathFromSourcePath(path);
+    }
+    const chains: string[][] = [];
+    for (const { name, aliases } of assets) {
+        if (name !== path && !aliases.includes(module) && packageNameFromAssetName(name) !== module) {
+            continue;
+        }
+
+        if (name === entrypoint) {
+            chains.push([name]);
+            continue;
+        }
+
+        for (const importer of Object.keys(dependencies).sort()) {
+            if (visited.has(importer) && dependencies[importer].includes(name)) {
+                chains.push([...chainTo(importer), name]);
+            }
+        }
+    }
+    return chains;
+}
+
+export function queryDefaultAssets(projectRoot: string, sys: ts.System): Assets {
+    const projectNodeModulesDir = crosspath.join(crosspath.ensurePosix(projectRoot), "node_modules");
+    const compilerNodeModulesDir = crosspath.join(compilerRoot, "node_modules");
+    let shimDir: string;
+    if (sys.directoryExists(crosspath.join(compilerNodeModulesDir, "@frida"))) {
+        shimDir = compilerNodeModulesDir;
+    } else if (sys.directoryExists(crosspath.join(projectNodeModulesDir, "@frida"))) {
+        shimDir = projectNodeModulesDir;
+    } else {
+        const compilerParent = crosspath.dirname(compilerRoot);
+        if (crosspath.basename(compilerParent) === "node_modules" &&
+                sys.directoryExists(crosspath.join(compilerParent, "@frida"))) {
+            shimDir = compilerParent;
+        } else {
+            throw new Error("Unable to detect shim directory; please file a bug");
+        }
+    }
+
+    const shims = new Map([
+        ["assert", crosspath.join(shimDir, "@frida", "assert")],
+        ["base64-js", crosspath.join(shimDir, "@frida", "base64-js")],
         ["buffer", crosspath.join(shimDir, "@frida", "buffer")],
         ["diagnostics_channel", crosspath.join(shimDir, "@frida", "diagnostics_channel")],
         ["events", crosspath.join(shimDir, "@frida", "events")],
@@ -317,10 +1238,216 @@ export function queryDefaultAssets(projectRoot: string, sys: ts.System): Assets
     };
 }
 
+function refreshAssets(current: Assets, projectRoot: string, system: ts.System): Assets {
+    const defaults = queryDefaultAssets(projectRoot, system);
+    if (defaults.shimDir === current.shimDir) {
+        return current;
+    }
+
+    const shims = new Map(defaults.shims);
+    for (const [name, path] of current.shims) {
+        if (!path.startsWith(current.shimDir + "/")) {
+            shims.set(name, path);
+        }
+    }
+
+    return { ...defaults, shims };
+}
+
+export function loadProjectConfig(projectRoot: string, system: ts.System): ProjectConfig | null {
+    projectRoot = crosspath.ensurePosix(projectRoot);
+
+    let path = crosspath.join(projectRoot, "frida-compile.config.json");
+    let rawConfig: any;
+    const rawConfigFile = system.readFile(path);
+    if (rawConfigFile !== undefined) {
+        rawConfig = parseConfigJson(path, rawConfigFile);
+    } else {
+        path = crosspath.join(projectRoot, "package.json");
+        const rawPkgMeta = system.readFile(path);
+        if (rawPkgMeta === undefined) {
+            return null;
+        }
+        rawConfig = parseConfigJson(path, rawPkgMeta)["frida-compile"];
+        if (rawConfig === undefined) {
+            return null;
+        }
+        path += "#frida-compile";
+    }
+
+    return validateProjectConfig(path, projectRoot, rawConfig);
+}
+
+const loaderKinds: readonly Loader[] = ["text", "binary", "cmodule"];
+
+function isLoader(value: unknown): value is Loader {
+    return loaderKinds.some(kind => kind === value);
+}
+
+function parseConfigJson(path: string, json: string): any {
+    try {
+        return JSON.parse(json);
+    } catch (e) {
+        throw new Error(`${path}: ${(e as Error).message}`);
+    }
+}
+
+function validateProjectConfig(path: string, projectRoot: string, rawConfig: any): ProjectConfig {
+    const fail = (message: string): never => {
+        throw new Error(`${path}: ${message}`);
+    };
+    const isStringArray = (value: any): boolean => Array.isArray(value) && value.every(e => typeof e === "string");
+    const checkChoice = (key: string, value: any, choices: string[]): void => {
+        if (value !== undefined && !choices.includes(value)) {
+            fail(`"${key}" must be one of ${choices.map(c => JSON.stringify(c)).join(", ")}`);
+        }
+    };
+
+    if (!isPlainObject(rawConfig)) {
+        fail("configuration must be an object");
+    }
+
+    const knownKeys = [
+        "entrypoints",
+        "sourceMaps",
+        "compression",
+        "format",
+        "typeCheck",
+        "conditions",
+        "aliases",
+        "externals",
+        "loaders",
+        "defines",
+        "inlineEnv",
+        "sizeBudgets",
+        "shims",
+    ];
+    for (const key of Object.keys(rawConfig)) {
+        if (!knownKeys.includes(key)) {
+            fail(`unknown option "${key}"`);
+        }
+    }
+
+    const {
+        entrypoints = [],
+        sourceMaps,
+        compression,
+        format,
+        typeCheck,
+        conditions,
+        aliases,
+        externals,
+        loaders,
+        defines,
+        inlineEnv,
+        sizeBudgets,
+        shims = {},
+    } = rawConfig;
+
+    if (!Array.isArray(entrypoints)) {
+        fail(`"entrypoints" must be an array`);
+    }
+    entrypoints.forEach((entry: any, i: number) => {
+        if (!isPlainObject(entry) || typeof entry.input !== "string" || typeof entry.output !== "string") {
+            fail(`"entrypoints[${i}]" must be an object with "input" and "output" strings`);
+        }
+    });
+
+    checkChoice("sourceMaps", sourceMaps, ["included", "omitted"]);
+    checkChoice("compression", compression, ["none", "terser"]);
+    checkChoice("format", format, ["bundle", "script"]);
+    checkChoice("typeCheck", typeCheck, ["full", "none", "warn"]);
+
+    if (conditions !== undefined && !isStringArray(conditions)) {
+        fail(`"conditions" must be an array of strings`);
+    }
+
+    if (aliases !== undefined &&
+            (!isPlainObject(aliases) || Object.values(aliases).some(v => typeof v !== "string" && v !== false))) {
+        fail(`"aliases" must map module names to paths, package names or false`);
+    }
+
+    if (externals !== undefined && !isStringArray(externals)) {
+        fail(`"externals" must be an array of strings`);
+    }
+
+    if (loaders !== undefined &&
+            (!isPlainObject(loaders) ||
+                Object.entries(loaders).some(([ext, loader]) => !ext.startsWith(".") || !isLoader(loader)))) {
+        fail(`"loaders" must map file extensions to "text", "binary" or "cmodule"`);
+    }
+
+    if (defines !== undefined) {
+        if (!isPlainObject(defines)) {
+            fail(`"defines" must be an object`);
+        }
+        for (const [key, value] of Object.entries(defines)) {
+            if (typeof value === "object" && value !== null) {
+                fail(`"defines.${key}" must be a string, number, boolean or null`);
+            }
+        }
+    }
+
+    if (inlineEnv !== undefined && !isStringArray(inlineEnv)) {
+        fail(`"inlineEnv" must be an array of strings`);
+    }
+
+    if (sizeBudgets !== undefined) {
+        if (!isPlainObject(sizeBudgets)) {
+            fail(`"sizeBudgets" must be an object`);
+        }
+        const { total, packages = {} } = sizeBudgets;
+        if (total !== undefined && typeof total !== "number") {
+            fail(`"sizeBudgets.total" must be a number`);
+        }
+        if (!isPlainObject(packages) || Object.values(packages).some(v => typeof v !== "number")) {
+            fail(`"sizeBudgets.packages" must map package names to numbers`);
+        }
+    }
+
+    if (!isPlainObject(shims) || Object.values(shims).some(v => typeof v !== "string")) {
+        fail(`"shims" must map module names to paths`);
+    }
+
+    const options: ConfigurableOptions = {};
+    const assignIfDefined = <K extends keyof ConfigurableOptions>(key: K, value: ConfigurableOptions[K]): void => {
+        if (value !== undefined) {
+            options[key] = value;
+        }
+    };
+    assignIfDefined("sourceMaps", sourceMaps);
+    assignIfDefined("compression", compression);
+    assignIfDefined("format", format);
+    assignIfDefined("typeCheck", typeCheck);
+    assignIfDefined("conditions", conditions);
+    assignIfDefined("aliases", aliases);
+    assignIfDefined("externals", externals);
+    assignIfDefined("loaders", loaders);
+    assignIfDefined("defines", defines);
+    assignIfDefined("inlineEnv", inlineEnv);
+    assignIfDefined("sizeBudgets", sizeBudgets);
+
+    const resolvedShims = new Map<string, string>();
+    for (const [name, shimPath] of Object.entries(shims as { [name: string]: string })) {
+        const posixPath = crosspath.ensurePosix(shimPath);
+        resolvedShims.set(name, crosspath.isAbsolute(posixPath) ? posixPath : crosspath.join(projectRoot, posixPath));
+    }
+
+    return {
+        path,
+        entrypoints,
+        options,
+        shims: resolvedShims,
+    };
+}
+
+// Where tsconfig.json puts the output that we emit into memory instead, as package imports may point there.
+const configuredOutputLayouts = new WeakMap<ts.CompilerOptions, OutputLayout>();
+
 function makeCompilerOptions(projectRoot: string, system: ts.System, options: OutputOptions): ts.CompilerOptions {
     const defaultTsOptions = makeDefaultCompilerOptions();
 
-    const softOptionNames = ["target", "lib", "strict"];
+    const softOptionNames = ["target", "lib", "strict", "moduleResolution"];
     const fixedTsOptions = Object.assign({}, defaultTsOptions);
     for (const name of softOptionNames) {
         delete fixedTsOptions[name];
@@ -342,8 +1469,17 @@ function makeCompilerOptions(projectRoot: string, system: ts.System, options: Ou
         opts = defaultTsOptions;
     }
 
+    if (opts.outDir !== undefined) {
+        configuredOutputLayouts.set(opts, {
+            rootDir: crosspath.ensurePosix(opts.rootDir ?? projectRoot),
+            outDir: crosspath.ensurePosix(opts.outDir),
+        });
+    }
     opts.rootDir = projectRoot;
     opts.outDir = "/";
+    if (options.format === "script") {
+        opts.esModuleInterop = true;
+    }
     if (options.sourceMaps === "included") {
         opts.sourceRoot = projectRoot;
         opts.sourceMap = true;
@@ -366,30 +1502,99 @@ export function makeDefaultCompilerOptions(): ts.CompilerOptions {
     };
 }
 
-function createBundler(entrypoint: EntrypointName, projectRoot: string, assets: Assets, system: ts.System, options: OutputOptions): Bundler {
+function createBundler(entrypoint: EntrypointName, projectRoot: string, assets: Assets, system: System, options: OutputOptions,
+        resolverOptions: ResolverOptions): Bundler {
     const {
         sourceMaps,
         compression,
+        format,
+        defines,
+        sizeBudgets,
+        collectStats,
+        cache,
     } = options;
 
     const events = new EventEmitter() as TypedEmitter<BundlerEvents>;
 
+    const emittedFiles = new Map<string, string>();
+    const processedAssets = new Map<string, ProcessedAsset>();
+    const pendingAssets = new Map<string, PendingAsset>();
     const output = new Map<string, string>();
-    const pendingModules: ModuleReference[] = [];
-    const processedModules = new Set<string>();
-    const jsonFilePaths = new Set<string>();
+    const rawSizes = new Map<string, number>();
     const modules = new Map<string, JSModule>();
+    const programModulePaths = new Map<string, string>();
+    const resolvedReferences = new Map<string, ResolvedReference>();
+    const specifierRewrites = new Map<string, Map<string, string>>();
+    const packageScopes = new Map<string, string>();
+    const dependencies = new Map<string, Set<string>>();
+    const importers = new Map<string, Set<string>>();
+    const convertedModules = new Set<string>();
+    const externalModules = new Set<string>();
+    const dataAssets = new Map<string, DataLoader>();
+    const dataFileDependents = new Map<string, Set<string>>();
     const externalSources = new Map<string, ts.SourceFile>();
+    const upstreamSourceMaps = new Map<string, TraceMap>();
+    const definePositionTranslators = new Map<string, PositionTranslator>();
+    let wrappedModules = new Set<string>();
+    const entrypointName = assetNameFromFilePath(jsFilePathFromSourcePath(entrypoint.input));
+    let liveAssets: string[] = [];
 
     system.writeFile = (path, data, writeByteOrderMark) => {
-        output.set(path, data);
+        emittedFiles.set(path, data);
     };
 
-    function markAllProgramSourcesAsProcessed(program: ts.Program): void {
-        for (const sf of program.getSourceFiles()) {
-            if (!sf.isDeclarationFile) {
-                const outPath = changeFileExtension(sf.fileName, "js");
-                processedModules.add(outPath);
+    function reportDiagnostic(diagnostic: ts.Diagnostic): void {
+        events.emit("diagnostic", diagnostic);
+    }
+
+    function loadDataFile(path: string, loader: DataLoader, assetName: string): string {
+        const filePath = stripQuery(path);
+
+        forgetDataFileDependencies(assetName);
+
+        let data: string;
+        let dependencies: string[];
+        if (loader === "cmodule") {
+            const includedPaths = new Set<string>();
+            data = flattenCSource(filePath, includedPaths, system);
+            dependencies = Array.from(includedPaths);
+        } else if (loader === "binary") {
+            if (system.readBinaryFile === undefined) {
+                throw new Error(`unable to read ${filePath} as binary: the system does not implement readBinaryFile()`);
+            }
+            const contents = system.readBinaryFile(filePath);
+            if (contents === undefined) {
+                throw new Error(`unable to open ${filePath}`);
+            }
+            data = Buffer.from(contents.buffer, contents.byteOffset, contents.byteLength).toString("base64");
+            dependencies = [filePath];
+        } else {
+            const contents = system.readFile(filePath);
+            if (contents === undefined) {
+                throw new Error(`unable to open ${filePath}`);
+            }
+            data = contents;
+            dependencies = [filePath];
+        }
+
+        for (const dependency of dependencies) {
+            let dependents = dataFileDependents.get(dependency);
+            if (dependents === undefined) {
+                dependents = new Set<string>();
+                dataFileDependents.set(dependency, dependents);
+                events.emit("dataFileAdded", dependency);
+            }
+            dependents.add(assetName);
+        }
+
+        return data;
+    }
+
+    function forgetDataFileDependencies(assetName: string): void {
+        for (const [dependency, dependents] of Array.from(dataFileDependents)) {
+            dependents.delete(assetName);
+            if (dependents.size === 0) {
+                dataFileDependents.delete(dependency);
             }
         }
     }
@@ -414,265 +1619,1914 @@ function createBundler(entrypoint: EntrypointName, projectRoot: string, assets:
     }
 
     function assetNameFromFilePath(path: string): string {
-        if (path.startsWith(compilerRoot)) {
+        if (path.startsWith(compilerRoot + "/")) {
             return path.substring(compilerRoot.length);
         }
 
-        if (path.startsWith(projectRoot)) {
+        if (path.startsWith(projectRoot + "/")) {
             return path.substring(projectRoot.length);
         }
 
+        // Hoisted dependencies are named after their location relative to the project, e.g. /~/~/node_modules/x/index.js,
+        // so they cannot collide with the project's own node_modules.
+        if (path.includes("/node_modules/")) {
+            return "/" + crosspath.relative(projectRoot, path)
+                .split("/")
+                .map(segment => (segment === "..") ? "~" : segment)
+                .join("/");
+        }
+
+        const pkgRoot = findPackageRoot(path, system);
+        if (pkgRoot !== null) {
+            const [pkgDir, pkgName] = pkgRoot;
+            return "/node_modules/" + pkgName + path.substring(pkgDir.length);
+        }
+
         throw new Error(`unexpected file path: ${path}`);
     }
 
-    return {
-        events,
-        bundle(program: ts.Program): string {
-            markAllProgramSourcesAsProcessed(program);
-
-            for (const sf of program.getSourceFiles()) {
-                if (!sf.isDeclarationFile) {
-                    const { fileName } = sf;
-                    const path = changeFileExtension(fileName, "js");
-                    const mod: JSModule = {
-                        type: "esm",
-                        path,
-                        file: sf,
-                        aliases: new Set<string>(),
-                    };
-                    modules.set(assetNameFromFilePath(path), mod);
-
-                    processJSModule(mod, processedModules, pendingModules, jsonFilePaths);
-                }
-            }
-
-            const missing = new Set<string>();
-            let ref: ModuleReference | undefined;
-            while ((ref = pendingModules.shift()) !== undefined) {
-                const refName = ref.name;
-                processedModules.add(ref.name);
+    function maybeReportStats(totalSize: number): void {
+        if (!collectStats) {
+            return;
+        }
 
-                let resolveRes: ResolveModuleReferenceResult;
-                try {
-                    resolveRes = resolveModuleReference(ref, assets, system);
-                } catch (e) {
-                    missing.add(refName);
-                    continue;
-                }
-                const [modPath, needsAlias] = resolveRes;
-
-                const assetName = assetNameFromFilePath(modPath);
-
-                let mod = modules.get(assetName);
-                if (mod === undefined) {
-                    const sourceFile = getExternalSourceFile(modPath);
-                    mod = {
-                        type: detectModuleType(modPath, system),
-                        path: modPath,
-                        file: sourceFile,
-                        aliases: new Set<string>(),
-                    };
-                    output.set(assetName, sourceFile.text);
-                    modules.set(assetName, mod);
-                    processedModules.add(modPath);
-
-                    processJSModule(mod, processedModules, pendingModules, jsonFilePaths);
-                }
+        const stats = computeStats(totalSize);
+        events.emit("stats", stats);
 
-                if (needsAlias) {
-                    let alias: string;
-                    if (crosspath.isAbsolute(refName)) {
-                        alias = refName.substring(projectRoot.length);
-                    } else {
-                        alias = refName;
-                    }
-                    mod.aliases.add(alias);
-                }
-            }
-            if (missing.size > 0) {
-                throw new Error(`unable to resolve: ${Array.from(missing).join(", ")}`);
+        const violations = checkSizeBudgets(stats, sizeBudgets);
+        if (violations.length > 0) {
+            for (const violation of violations) {
+                reportDiagnostic(makeBundlerDiagnostic(BundlerDiagnosticCode.SizeBudgetExceeded,
+                    `Size budget exceeded: ${violation}`));
             }
+            throw makeCompilationFailedError();
+        }
+    }
 
-            const legacyModules = Array.from(modules.values()).filter(m => m.type === "cjs");
-            if (legacyModules.length > 0) {
-                const opts = makeCompilerOptions(projectRoot, system, options);
-                const host = ts.createIncrementalCompilerHost(opts, system);
-                const p = ts.createProgram({
-                    rootNames: legacyModules.map(m => m.path),
-                    options: { ...opts, allowJs: true },
-                    host
-                });
-                p.emit(undefined, undefined, undefined, undefined, {
-                    before: [
-                        cjsToEsmTransformer()
-                    ],
-                    after: [
-                        useStrictRemovalTransformer()
-                    ]
-                });
+    function reportUnresolvedModules({ unresolved, parents }: ModuleGraph): void {
+        for (const [ref, referrers] of unresolved) {
+            reportDiagnostic(makeBundlerDiagnostic(BundlerDiagnosticCode.UnresolvedModule,
+                explainUnresolvedModule(ref, Array.from(referrers).sort(), parents)));
+        }
+    }
+
+    function explainUnresolvedModule(ref: string, referrers: string[], parents: Map<string, string>): ts.DiagnosticMessageChain {
+        const details = referrers.map(name => {
+            const chain = [name];
+            let parent: string | undefined;
+            while ((parent = parents.get(chain[chain.length - 1])) !== undefined) {
+                chain.push(parent);
             }
+            return makeMessageChain(`Imported by ${chain.join(" ← ")}`);
+        });
 
-            for (const path of jsonFilePaths) {
-                const assetName = assetNameFromFilePath(path);
-                if (!output.has(assetName)) {
-                    output.set(assetName, system.readFile(path)!);
+        const tried: string[] = [];
+        if (dataLoaderFor(ref, resolverOptions.loaders) !== null) {
+            tried.push(stripQuery(ref));
+        } else {
+            try {
+                resolveModuleReference({ name: ref, referrer: modules.get(referrers[0])! }, assets, resolverOptions, system,
+                    tried);
+            } catch (e) {
+                const reason = (e as Error).message;
+                if (reason !== "unable to resolve module") {
+                    details.push(makeMessageChain(reason.charAt(0).toUpperCase() + reason.substring(1)));
                 }
             }
+        }
+        if (tried.length > 0) {
+            details.push(makeMessageChain("Tried:", Array.from(new Set(tried)).map(path => makeMessageChain(path))));
+        }
 
-            for (const [name, data] of output) {
-                if (name.endsWith(".js")) {
-                    let code = data;
+        const suggestion = suggestResolutionFix(ref);
+        if (suggestion !== null) {
+            details.push(makeMessageChain(suggestion));
+        }
 
-                    const lines = code.split("\n");
-                    const n = lines.length;
-                    const lastLine = lines[n - 1];
+        return makeMessageChain(`Unable to resolve "${ref}"`, details);
+    }
 
-                    const sourceMapToken = "//# sourceMappingURL=";
-                    if (lastLine.startsWith(sourceMapToken)) {
-                        const precedingLines = lines.slice(0, n - 1);
-                        code = precedingLines.join("\n");
+    function suggestResolutionFix(ref: string): string | null {
+        if (crosspath.isAbsolute(ref) || ref.startsWith("#")) {
+            return null;
+        }
 
-                        if (sourceMaps === "included") {
-                            const inlinedSourceMapOrPath = lastLine.substring(sourceMapToken.length);
+        const pkgName = packageNameFromSpecifier(ref);
+        const builtinName = pkgName.startsWith("node:") ? pkgName.substring(5) : pkgName;
+        if (builtinModules.includes(builtinName)) {
+            if (assets.shims.has(builtinName)) {
+                return null;
+            }
+            return `Did you mean to add a shim for "${builtinName}", or to stub it out with --stub ${ref}?`;
+        }
 
-                            const dataUrlToken = "data:application/json;base64,";
-                            const isInlined = inlinedSourceMapOrPath.startsWith(dataUrlToken);
+        const pkgMeta = readPackageMeta(projectRoot, system);
+        const isDeclared = packageDependencyFields.some(field => pkgMeta?.[field]?.[pkgName] !== undefined);
+        return isDeclared
+            ? `"${pkgName}" is listed in package.json but not installed. Did you forget to run npm install?`
+            : `"${pkgName}" is not a dependency in package.json. Did you mean to run npm install ${pkgName}?`;
+    }
 
-                            const sourceMapPath = isInlined
-                                ? `${name}.map`
-                                : crosspath.join(crosspath.dirname(name), inlinedSourceMapOrPath);
+    function computeDependencies(): DependencyGraph {
+        const graph: DependencyGraph = {};
+        for (const name of modules.keys()) {
+            if (output.has(name)) {
+                graph[name] = Array.from(dependencies.get(name) ?? []).sort();
+            }
+        }
+        return graph;
+    }
 
-                            if (!output.has(sourceMapPath)) {
-                                const content = isInlined
-                                    ? system.base64decode?.(inlinedSourceMapOrPath.substring(dataUrlToken.length))
-                                    : system.readFile(`.${sourceMapPath}`);
+    function computeAssets(): AssetInfo[] {
+        const assetInfos: AssetInfo[] = [];
+        for (const [name, data] of output) {
+            if (name.endsWith(".map")) {
+                continue;
+            }
 
-                                if (content !== undefined) {
-                                    output.set(sourceMapPath, content);
-                                }
-                            }
-                        }
-                    }
+            const mod = modules.get(name);
+            assetInfos.push({
+                name,
+                size: Buffer.byteLength(data),
+                type: mod?.type ?? dataAssets.get(name) ?? "json",
+                aliases: (mod !== undefined) ? Array.from(mod.aliases) : [],
+                sourceMap: output.get(name + ".map") ?? null,
+            });
+        }
+        return assetInfos.sort((a, b) => a.name.localeCompare(b.name));
+    }
 
-                    if (compression === "terser") {
-                        const mod = modules.get(name)!;
-                        const originPath = mod.path;
-                        const originFilename = crosspath.basename(originPath);
-
-                        const minifySources: { [name: string]: string } = {};
-                        minifySources[originFilename] = code;
-
-                        const minifyOpts: MinifyOptions = {
-                            ecma: 2020,
-                            compress: {
-                                module: true,
-                                global_defs: {
-                                    "process.env.FRIDA_COMPILE": true
-                                },
-                            },
-                            mangle: {
-                                module: true,
-                            },
-                        };
-
-                        const mapName = name + ".map";
-
-                        if (sourceMaps === "included") {
-                            const mapOpts: SourceMapOptions = {
-                                asObject: true,
-                                root: crosspath.dirname(originPath) + "/",
-                                filename: name.substring(name.lastIndexOf("/") + 1),
-                            } as SourceMapOptions;
-
-                            const inputMap = output.get(mapName);
-                            if (inputMap !== undefined) {
-                                mapOpts.content = inputMap;
-                            }
-
-                            minifyOpts.sourceMap = mapOpts;
-                        }
+    function computeStats(totalSize: number): BundleStats {
+        const assetStats: AssetStats[] = [];
+        const packageSizes = new Map<string, number>();
+        for (const [name, data] of output) {
+            const assetName = name.endsWith(".map") ? name.substring(0, name.length - 4) : name;
+            const pkgName = packageNameFromAssetName(assetName);
+
+            const size = Buffer.byteLength(data);
+            const rawSize = rawSizes.get(name) ?? size;
+            const minifiedSize = processedAssets.get(name)?.minifiedSize ?? size;
+
+            assetStats.push({
+                name,
+                package: pkgName,
+                size,
+                rawSize,
+                minifiedSize,
+                importers: Array.from(importers.get(assetName) ?? []).sort(),
+            });
+
+            if (pkgName !== null && name === assetName) {
+                packageSizes.set(pkgName, (packageSizes.get(pkgName) ?? 0) + size);
+            }
+        }
+        assetStats.sort((a, b) => b.size - a.size);
 
-                        const result = minify(minifySources, minifyOpts);
-                        code = result.code!;
+        const packages = Array.from(packageSizes.entries())
+            .map(([name, size]) => ({ name, size }))
+            .sort((a, b) => b.size - a.size);
 
-                        if (sourceMaps === "included") {
-                            const map = result.map as { [key: string]: any };
-                            const prefixLength: number = map.sourceRoot.length;
-                            map.sources = map.sources.map((s: string) => s.substring(prefixLength));
-                            output.set(mapName, JSON.stringify(map));
-                        }
-                    }
+        return {
+            totalSize,
+            assets: assetStats,
+            packages,
+        };
+    }
 
-                    output.set(name, code);
-                } else if (name.endsWith(".json")) {
-                    output.set(name, jsonToModule(data));
-                }
-            }
+    function readMinified(job: MinifyJob): MinifyJobResult | undefined {
+        if (cache === null) {
+            return undefined;
+        }
+        const result = cache.read(cache.keyFor("minify", [job.sources, job.options]));
+        return isMinifyJobResult(result) ? result : undefined;
+    }
 
-            const names: string[] = [];
+    function writeMinified(job: MinifyJob, result: MinifyJobResult): MinifyJobResult {
+        cache?.write(cache.keyFor("minify", [job.sources, job.options]), result);
+        return result;
+    }
 
-            const orderedNames = Array.from(output.keys());
-            orderedNames.sort();
+    function prepareAssets(program: ts.Program): MinifyJob[] {
+        const graph = traverseModuleGraph(syncProgramModules(program));
+        if (graph.unresolved.size > 0) {
+            reportUnresolvedModules(graph);
+            throw makeCompilationFailedError();
+        }
+        convertModules();
+        loadDataAssets(graph.data);
+        wrappedModules = (format === "script") ? computeWrappedModules() : new Set();
+        return collectMinifyJobs();
+    }
 
-            const maps = new Set(orderedNames.filter(name => name.endsWith(".map")));
-            const entrypointNormalized = crosspath.normalize(entrypoint.output);
-            for (const name of orderedNames.filter(name => !name.endsWith(".map"))) {
-                let index = (crosspath.normalize(name) === entrypointNormalized) ? 0 : names.length;
+    // CommonJS modules cannot be hoisted into the script's scope, and neither can anything they depend on, as it must
+    // not run before they require it.
+    function computeWrappedModules(): Set<string> {
+        const wrapped = new Set<string>();
+        const pending = Array.from(modules.entries())
+            .filter(([name, m]) => m.type === "cjs")
+            .map(([name]) => name);
+        let name: string | undefined;
+        while ((name = pending.pop()) !== undefined) {
+            if (wrapped.has(name)) {
+                continue;
+            }
+            wrapped.add(name);
+            pending.push(...(dependencies.get(name) ?? []));
+        }
+        return wrapped;
+    }
 
-                const mapName = name + ".map";
-                if (maps.has(mapName)) {
-                    names.splice(index, 0, mapName);
-                    index++;
-                }
+    function syncProgramModules(program: ts.Program): Set<string> {
+        const roots = new Set<string>();
 
-                names.splice(index, 0, name);
+        programModulePaths.clear();
+        for (const sf of program.getSourceFiles()) {
+            if (!isBundledProgramSource(program, sf)) {
+                continue;
             }
 
-            const chunks: string[] = [];
-            chunks.push("📦\n")
-            for (const name of names) {
-                const rawData = Buffer.from(output.get(name)!);
-                chunks.push(`${rawData.length} ${name}\n`);
-                const mod = modules.get(name);
-                if (mod !== undefined) {
-                    for (const alias of mod.aliases) {
-                        chunks.push(`↻ ${alias}\n`)
-                    }
-                }
-            }
-            chunks.push("✄\n");
-            let i = 0;
-            for (const name of names) {
-                if (i !== 0) {
-                    chunks.push("\n✄\n");
-                }
-                const data = output.get(name)!;
-                chunks.push(data);
-                i++;
+            const path = jsFilePathFromSourcePath(sf.fileName);
+            const name = assetNameFromFilePath(path);
+            roots.add(name);
+            programModulePaths.set(path, name);
+
+            if (modules.get(name)?.file === sf) {
+                continue;
             }
+            convertedModules.delete(name);
+
+            const mod: JSModule = {
+                type: programModuleTypeOf(sf.fileName),
+                path,
+                file: sf,
+                aliases: new Set<string>(),
+                references: new Set<string>(),
+            };
+            modules.set(name, mod);
+            processJSModule(mod, reportDiagnostic);
+        }
 
-            return chunks.join("");
+        return roots;
+    }
+
+    function traverseModuleGraph(roots: Set<string>): ModuleGraph {
+        for (const mod of modules.values()) {
+            mod.aliases.clear();
+        }
+        dependencies.clear();
+        importers.clear();
+        externalModules.clear();
+        specifierRewrites.clear();
+
+        const live = new Set<string>();
+        const liveData = new Map<string, DataReference>();
+        const unresolved = new Map<string, Set<string>>();
+        const parents = new Map<string, string>();
+        const bareReferences: [referrer: string, ref: string, target: string][] = [];
+
+        const queue = roots.has(entrypointName)
+            ? [entrypointName, ...Array.from(roots).filter(name => name !== entrypointName)]
+            : Array.from(roots);
+        let name: string | undefined;
+        while ((name = queue.shift()) !== undefined) {
+            if (live.has(name)) {
+                continue;
+            }
+            live.add(name);
+
+            const mod = modules.get(name)!;
+            const targets = new Set<string>();
+            dependencies.set(name, targets);
+
+            for (const ref of mod.references) {
+                let target: string;
+
+                const loader = dataLoaderFor(ref, resolverOptions.loaders);
+                if (loader !== null) {
+                    target = assetNameFromFilePath(ref);
+                    liveData.set(target, { path: ref, loader });
+                } else if (isExternalModule(ref, resolverOptions.externals)) {
+                    externalModules.add(ref);
+                    continue;
+                } else {
+                    const resolved = resolveReference(ref, mod);
+                    if (resolved === null) {
+                        let referrers = unresolved.get(ref);
+                        if (referrers === undefined) {
+                            referrers = new Set();
+                            unresolved.set(ref, referrers);
+                        }
+                        referrers.add(name);
+                        continue;
+                    }
+                    target = resolved;
+                    queue.push(target);
+                    if (!crosspath.isAbsolute(ref)) {
+                        bareReferences.push([name, ref, target]);
+                    }
+                }
+
+                targets.add(target);
+                if (!live.has(target) && !parents.has(target) && target !== entrypointName) {
+                    parents.set(target, name);
+                }
+                let names = importers.get(target);
+                if (names === undefined) {
+                    names = new Set();
+                    importers.set(target, names);
+                }
+                names.add(name);
+            }
+        }
+
+        for (const name of Array.from(modules.keys())) {
+            if (!live.has(name)) {
+                forgetModule(name);
+            }
+        }
+
+        // Aliases are global to the bundle, so package imports, and specifiers that resolve to different modules
+        // depending on the referrer, are rewritten to relative paths instead.
+        const ambiguousAliases = removeAmbiguousAliases();
+        for (const [referrer, ref, target] of bareReferences) {
+            if (isPackageImport(ref) || ambiguousAliases.has(ref)) {
+                let rewrites = specifierRewrites.get(referrer);
+                if (rewrites === undefined) {
+                    rewrites = new Map();
+                    specifierRewrites.set(referrer, rewrites);
+                }
+                rewrites.set(ref, relativeSpecifierFor(target, referrer));
+            }
+        }
+
+        return { data: liveData, unresolved, parents };
+    }
+
+    function removeAmbiguousAliases(): Set<string> {
+        const owners = new Map<string, string>();
+        const ambiguous = new Set<string>();
+        for (const [name, mod] of modules) {
+            for (const alias of mod.aliases) {
+                const owner = owners.get(alias);
+                if (owner === undefined) {
+                    owners.set(alias, name);
+                } else if (owner !== name) {
+                    ambiguous.add(alias);
+                }
+            }
+        }
+
+        for (const mod of modules.values()) {
+            for (const alias of ambiguous) {
+                mod.aliases.delete(alias);
+            }
+        }
+
+        return ambiguous;
+    }
+
+    function resolveReference(refName: string, referrer: JSModule): string | null {
+        const programModule = programModulePaths.get(refName);
+        if (programModule !== undefined) {
+            return programModule;
+        }
+
+        const key = resolutionKeyFor(refName, referrer);
+        let resolved = resolvedReferences.get(key);
+        if (resolved === undefined) {
+            let resolveRes: ResolveModuleReferenceResult;
+            try {
+                resolveRes = resolveModuleReference({ name: refName, referrer }, assets, resolverOptions, system);
+            } catch (e) {
+                return null;
+            }
+            const [resolvedPath, needsAlias] = resolveRes;
+            const path = crosspath.ensurePosix(system.realpath?.(resolvedPath) ?? resolvedPath);
+            // Package imports may point at what the program emits for one of its sources, which only exists in memory.
+            if (isPackageImport(refName) && !programModulePaths.has(path) && !system.fileExists(path)) {
+                return null;
+            }
+            resolved = { assetName: assetNameFromFilePath(path), path, needsAlias };
+            resolvedReferences.set(key, resolved);
+        }
+
+        const mod = modules.get(resolved.assetName) ?? loadModule(resolved.path, resolved.assetName);
+        if (resolved.needsAlias && !isPackageImport(refName)) {
+            mod.aliases.add(crosspath.isAbsolute(refName) ? assetNameFromFilePath(refName) : refName);
+        }
+
+        return resolved.assetName;
+    }
+
+    function isPackageImport(refName: string): boolean {
+        return refName.startsWith("#") && matchAlias(refName, resolverOptions.aliases) === null;
+    }
+
+    function resolutionKeyFor(refName: string, referrer: JSModule): string {
+        if (crosspath.isAbsolute(refName)) {
+            return refName;
+        }
+
+        // Bare specifiers resolve relative to the referrer's package, and conditions depend on its module type.
+        const referrerDir = crosspath.dirname(referrer.path);
+        let scope = packageScopes.get(referrerDir);
+        if (scope === undefined) {
+            scope = findPackageScope(referrer.path, system) ?? "";
+            packageScopes.set(referrerDir, scope);
+        }
+        return [refName, scope, referrer.type].join("\0");
+    }
+
+    function loadModule(path: string, assetName: string): JSModule {
+        let mod: JSModule;
+        if (isStubModulePath(path)) {
+            const isScript = format === "script";
+            const sourceText = isScript ? "module.exports = {};" : "export default {};";
+            mod = {
+                type: isScript ? "cjs" : "esm",
+                path,
+                file: ts.createSourceFile(path, sourceText, ts.ScriptTarget.ES2020, true, ts.ScriptKind.JS),
+                aliases: new Set<string>(),
+                references: new Set<string>(),
+            };
+            emittedFiles.set(assetName, sourceText);
+        } else {
+            const sourceFile = getExternalSourceFile(path);
+            mod = {
+                type: detectModuleType(path, system),
+                path,
+                file: sourceFile,
+                aliases: new Set<string>(),
+                references: new Set<string>(),
+            };
+            const [text, translate] = applyDefines(sourceFile, defines);
+            emittedFiles.set(assetName, stripSourceMappingURL(text));
+            if (translate !== null) {
+                definePositionTranslators.set(assetName, translate);
+            }
+            if (sourceMaps === "included") {
+                const upstreamMap = readUpstreamSourceMap(path, sourceFile.text, system);
+                if (upstreamMap !== null) {
+                    upstreamSourceMaps.set(assetName, upstreamMap);
+                }
+            }
+            processJSModule(mod, reportDiagnostic);
+        }
+        modules.set(assetName, mod);
+        return mod;
+    }
+
+    function forgetModule(name: string): void {
+        const mod = modules.get(name);
+        if (mod !== undefined) {
+            modules.delete(name);
+            externalSources.delete(mod.path);
+        }
+        emittedFiles.delete(name);
+        emittedFiles.delete(name + ".map");
+        processedAssets.delete(name);
+        convertedModules.delete(name);
+        upstreamSourceMaps.delete(name);
+        definePositionTranslators.delete(name);
+    }
+
+    function convertModules(): void {
+        const convertibleModules = Array.from(modules.entries())
+            .filter(([name, m]) => !convertedModules.has(name))
+            // Scripts keep CommonJS dependencies as they are, but program sources may use TypeScript's module syntax.
+            .filter(([name, m]) => m.type === "cjs" && (format === "bundle" || programModulePaths.has(m.path)));
+        if (convertibleModules.length === 0) {
+            return;
+        }
+
+        const opts = makeCompilerOptions(projectRoot, system, options);
+
+        const pendingConversions = new Map<string, [mod: JSModule, key: string | null]>();
+        for (const [name, m] of convertibleModules) {
+            convertedModules.add(name);
+
+            const key = (cache !== null)
+                ? cache.keyFor("convert", [format, compilerOptionsCacheInput(opts, system), Array.from(defines), m.path, m.file.text])
+                : null;
+            const files = (key !== null) ? cache!.read(key) : undefined;
+            if (isEmittedFileList(files)) {
+                for (const [fileName, data] of files) {
+                    emittedFiles.set(fileName, data);
+                }
+            } else {
+                pendingConversions.set(name, [m, key]);
+            }
+        }
+        if (pendingConversions.size === 0) {
+            return;
+        }
+
+        // Program modules are converted from their sources, e.g. agent/legacy.cts rather than the emitted agent/legacy.cjs.
+        const rootNames = Array.from(pendingConversions.values()).map(([m]) => m.file.fileName);
+        const conversionOpts: ts.CompilerOptions = { ...opts, allowJs: true };
+        if (format === "script") {
+            conversionOpts.module = ts.ModuleKind.CommonJS;
+        }
+        // Hoisted modules live outside the project root, and TypeScript refuses to emit files outside rootDir over themselves.
+        const rootDir = commonDirectoryOf([projectRoot, ...rootNames]);
+        if (rootDir !== projectRoot) {
+            conversionOpts.rootDir = rootDir;
+            if (conversionOpts.sourceRoot !== undefined) {
+                conversionOpts.sourceRoot = rootDir;
+            }
+        }
+
+        const host = ts.createIncrementalCompilerHost(conversionOpts, system);
+        const p = ts.createProgram({
+            rootNames,
+            options: conversionOpts,
+            host
+        });
+        const transformers: ts.CustomTransformers = {
+            before: [
+                ...((format === "script") ? [] : [cjsToEsmTransformer()]),
+                defineTransformer(defines),
+            ],
+            after: [
+                useStrictRemovalTransformer()
+            ]
+        };
+        for (const [name, [m, key]] of pendingConversions) {
+            const sourceFile = p.getSourceFile(m.file.fileName);
+            if (sourceFile === undefined) {
+                throw new Error(`unable to convert ${m.file.fileName}`);
+            }
+
+            const files: [string, string][] = [];
+            p.emit(sourceFile, (fileName, data) => {
+                const assetName = fileName.endsWith(".map") ? name + ".map" : name;
+                emittedFiles.set(assetName, data);
+                files.push([assetName, data]);
+            }, undefined, undefined, transformers);
+            if (key !== null) {
+                cache!.write(key, files);
+            }
+        }
+    }
+
+    function loadDataAssets(liveData: Map<string, DataReference>): void {
+        for (const name of dataAssets.keys()) {
+            if (!liveData.has(name)) {
+                emittedFiles.delete(name);
+                forgetDataFileDependencies(name);
+            }
+        }
+        dataAssets.clear();
+
+        let failed = false;
+        for (const [name, { path, loader }] of liveData) {
+            dataAssets.set(name, loader);
+            if (emittedFiles.has(name)) {
+                continue;
+            }
+            try {
+                emittedFiles.set(name, loadDataFile(path, loader, name));
+            } catch (e) {
+                reportDiagnostic(makeBundlerDiagnostic(BundlerDiagnosticCode.UnreadableDataFile,
+                    `Unable to load data file: ${(e as Error).message}`));
+                failed = true;
+            }
+        }
+        if (failed) {
+            throw makeCompilationFailedError();
+        }
+    }
+
+    function collectMinifyJobs(): MinifyJob[] {
+        liveAssets = [
+            ...Array.from(modules.keys()).filter(name => emittedFiles.has(name)),
+            ...dataAssets.keys(),
+        ];
+
+        const jobs: MinifyJob[] = [];
+        pendingAssets.clear();
+        for (const name of liveAssets) {
+            const data = emittedFiles.get(name)!;
+            const rewrites = specifierRewrites.get(name);
+            // ES modules that cannot be hoisted into a script are wrapped like CommonJS ones.
+            const needsCommonJS = wrappedModules.has(name) && modules.get(name)?.type === "esm";
+            let input = (rewrites !== undefined) ? data + "\0" + JSON.stringify(Array.from(rewrites)) : data;
+            if (needsCommonJS) {
+                input += "\0cjs";
+            }
+
+            const previous = processedAssets.get(name);
+            if (previous !== undefined && previous.input === input) {
+                continue;
+            }
+
+            const loader = dataAssets.get(name);
+            if (loader !== undefined) {
+                processedAssets.set(name, {
+                    input: data,
+                    code: (loader === "json")
+                        ? ((format === "script") ? `module.exports = ${data.trim()};` : jsonToModule(data))
+                        : dataToModule(data, loader, format),
+                    map: null,
+                    rawSize: (loader === "binary") ? Buffer.from(data, "base64").length : Buffer.byteLength(data),
+                });
+                continue;
+            }
+
+            if (!isJSFilePath(name)) {
+                processedAssets.set(name, { input: data, code: data, map: null, rawSize: Buffer.byteLength(data) });
+                continue;
+            }
+
+            const [emittedCode, emittedMap] = extractSourceMap(name, data);
+            let [code, inputMap] = rewriteSpecifiers(name, emittedCode, chainUpstreamSourceMap(name, emittedMap), rewrites);
+            if (needsCommonJS) {
+                [code, inputMap] = transpileToCommonJS(name, code, inputMap, projectRoot);
+            }
+            const rawSize = Buffer.byteLength(code);
+
+            if (compression === "terser") {
+                jobs.push(makeMinifyJob(name, code, inputMap, sourceMaps === "included"));
+                pendingAssets.set(name, { input, rawSize });
+            } else if (collectStats) {
+                // Only minified to report the size it would have.
+                jobs.push(makeMinifyJob(name, code, null, false));
+                pendingAssets.set(name, { input, rawSize, code, map: inputMap });
+            } else {
+                processedAssets.set(name, { input, code, map: inputMap, rawSize });
+            }
+        }
+
+        return jobs;
+    }
+
+    function extractSourceMap(name: string, data: string): [code: string, map: string | null] {
+        const lines = data.split("\n");
+        const n = lines.length;
+        const lastLine = lines[n - 1];
+
+        const sourceMapToken = "//# sourceMappingURL=";
+        if (!lastLine.startsWith(sourceMapToken)) {
+            return [data, null];
+        }
+
+        const code = lines.slice(0, n - 1).join("\n");
+        if (sourceMaps !== "included") {
+            return [code, null];
+        }
+
+        const inlinedSourceMapOrPath = lastLine.substring(sourceMapToken.length);
+
+        const dataUrlToken = "data:application/json;base64,";
+        if (inlinedSourceMapOrPath.startsWith(dataUrlToken)) {
+            return [code, system.base64decode?.(inlinedSourceMapOrPath.substring(dataUrlToken.length)) ?? null];
+        }
+
+        const sourceMapPath = crosspath.join(crosspath.dirname(name), inlinedSourceMapOrPath);
+        return [code, emittedFiles.get(sourceMapPath) ?? system.readFile(`.${sourceMapPath}`) ?? null];
+    }
+
+    function chainUpstreamSourceMap(name: string, map: string | null): string | null {
+        const upstreamMap = upstreamSourceMaps.get(name);
+        if (upstreamMap === undefined) {
+            return map;
+        }
+
+        const file = crosspath.basename(name);
+        if (convertedModules.has(name)) {
+            return (map !== null) ? chainSourceMaps(new TraceMap(map), upstreamMap, file, projectRoot) : null;
+        }
+
+        const chainedMap = chainSourceMaps(null, upstreamMap, file, projectRoot);
+        const translate = definePositionTranslators.get(name);
+        return (translate !== undefined) ? remapGeneratedPositions(chainedMap, translate) : chainedMap;
+    }
+
+    function makeMinifyJob(name: string, code: string, inputMap: string | null, withSourceMap: boolean): MinifyJob {
+        const originPath = modules.get(name)!.path;
+        const originFilename = crosspath.basename(originPath);
+
+        const minifySources: { [name: string]: string } = {};
+        minifySources[originFilename] = code;
+
+        const minifyOpts = makeMinifyOptions(format === "bundle" || !wrappedModules.has(name));
+
+        if (withSourceMap) {
+            const mapOpts: SourceMapOptions = {
+                asObject: true,
+                root: crosspath.dirname(originPath) + "/",
+                filename: name.substring(name.lastIndexOf("/") + 1),
+            } as SourceMapOptions;
+
+            if (inputMap !== null) {
+                mapOpts.content = inputMap;
+            }
+
+            minifyOpts.sourceMap = mapOpts;
+        }
+
+        return { name, sources: minifySources, options: minifyOpts };
+    }
+
+    function finishBundle(jobs: MinifyJob[], results: MinifyJobResult[], bundleTime: number, minifyTime: number): BundlerResult {
+        jobs.forEach(({ name }, i) => {
+            const pending = pendingAssets.get(name)!;
+            const result = results[i];
+            const minifiedSize = Buffer.byteLength(result.code);
+            processedAssets.set(name, (pending.code !== undefined)
+                ? { ...pending, code: pending.code, map: pending.map ?? null, minifiedSize }
+                : { ...pending, ...result, minifiedSize });
+        });
+        pendingAssets.clear();
+
+        output.clear();
+        rawSizes.clear();
+        for (const name of liveAssets) {
+            const { code, map, rawSize } = processedAssets.get(name)!;
+            output.set(name, code);
+            rawSizes.set(name, rawSize);
+            if (map !== null) {
+                output.set(name + ".map", map);
+            }
+        }
+
+        const liveNames = new Set(liveAssets);
+        for (const name of Array.from(processedAssets.keys())) {
+            if (!liveNames.has(name)) {
+                processedAssets.delete(name);
+            }
+        }
+        for (const name of Array.from(emittedFiles.keys())) {
+            if (!liveNames.has(name.endsWith(".map") ? name.substring(0, name.length - 4) : name)) {
+                emittedFiles.delete(name);
+            }
+        }
+
+        if (format === "script") {
+            if (externalModules.size > 0) {
+                reportDiagnostic(makeBundlerDiagnostic(BundlerDiagnosticCode.UnsupportedExternal,
+                    `Externals are not supported by the script format: ${Array.from(externalModules).join(", ")}`));
+                throw makeCompilationFailedError();
+            }
+            const script = linkScript(entrypoint, output, modules, wrappedModules, sourceMaps);
+            maybeReportStats(Buffer.byteLength(script));
+            return makeResult(script);
+        }
+
+        const names: string[] = [];
+
+        const orderedNames = Array.from(output.keys());
+        orderedNames.sort();
+
+        const maps = new Set(orderedNames.filter(name => name.endsWith(".map")));
+        const entrypointNormalized = crosspath.normalize(entrypoint.output);
+        for (const name of orderedNames.filter(name => !name.endsWith(".map"))) {
+            let index = (crosspath.normalize(name) === entrypointNormalized) ? 0 : names.length;
+
+            const mapName = name + ".map";
+            if (maps.has(mapName)) {
+                names.splice(index, 0, mapName);
+                index++;
+            }
+
+            names.splice(index, 0, name);
+        }
+
+        const bundle = serializeBundle({
+            assets: names.map(name => {
+                const mod = modules.get(name);
+                return {
+                    name,
+                    aliases: (mod !== undefined) ? Array.from(mod.aliases) : [],
+                    data: output.get(name)!,
+                };
+            }),
+            externals: Array.from(externalModules).sort(),
+        });
+        maybeReportStats(Buffer.byteLength(bundle));
+        return makeResult(bundle);
+
+        function makeResult(bundle: string): BundlerResult {
+            return {
+                bundle,
+                entrypoint: entrypointName,
+                assets: computeAssets(),
+                dependencies: computeDependencies(),
+                timings: {
+                    bundle: bundleTime,
+                    minify: minifyTime,
+                },
+            };
+        }
+    }
+
+    return {
+        events,
+        bundle(program: ts.Program): BundlerResult {
+            const startTime = performance.now();
+
+            const jobs = prepareAssets(program);
+
+            const minifyStart = performance.now();
+            const results = jobs.map(job => readMinified(job) ?? writeMinified(job, runMinifyJob(job)));
+            const minifyTime = performance.now() - minifyStart;
+
+            return finishBundle(jobs, results, performance.now() - startTime - minifyTime, minifyTime);
+        },
+        async bundleAsync(program: ts.Program, minifier: Minifier | null, signal?: AbortSignal): Promise<BundlerResult> {
+            const startTime = performance.now();
+
+            const jobs = prepareAssets(program);
+            await yieldToEventLoop(signal);
+
+            const minifyStart = performance.now();
+            const results = await Promise.all(jobs.map(async job => {
+                const cachedResult = readMinified(job);
+                if (cachedResult !== undefined) {
+                    return cachedResult;
+                }
+                return writeMinified(job, (minifier !== null) ? await minifier.minify(job) : runMinifyJob(job));
+            }));
+            const minifyTime = performance.now() - minifyStart;
+            throwIfAborted(signal);
+
+            return finishBundle(jobs, results, performance.now() - startTime - minifyTime, minifyTime);
+        },
+        resolve(program: ts.Program): void {
+            const graph = traverseModuleGraph(syncProgramModules(program));
+            for (const [name, { path }] of graph.data) {
+                if (!emittedFiles.has(name) && !system.fileExists(stripQuery(path))) {
+                    graph.unresolved.set(path, new Set(importers.get(name)));
+                }
+            }
+
+            reportUnresolvedModules(graph);
         },
         invalidate(path: string): void {
-            output.delete(assetNameFromFilePath(path));
-            processedModules.clear();
+            if (crosspath.basename(path) === "package.json") {
+                resolvedReferences.clear();
+                packageScopes.clear();
+            } else {
+                for (const [key, resolved] of Array.from(resolvedReferences)) {
+                    if (resolved.path === path) {
+                        resolvedReferences.delete(key);
+                    }
+                }
+            }
+            forgetModule(assetNameFromFilePath(path));
+            for (const assetName of dataFileDependents.get(path) ?? []) {
+                emittedFiles.delete(assetName);
+            }
             externalSources.delete(path);
         }
     };
 }
 
+function makeMinifyOptions(isModule: boolean): MinifyOptions {
+    return {
+        ecma: 2020,
+        compress: {
+            module: isModule,
+            toplevel: true,
+        },
+        mangle: {
+            module: isModule,
+            toplevel: true,
+        },
+    };
+}
+
+function packageNameFromAssetName(name: string): string | null {
+    const nodeModulesToken = "/node_modules/";
+    const index = name.lastIndexOf(nodeModulesToken);
+    if (index === -1) {
+        return null;
+    }
+
+    return packageNameFromSpecifier(name.substring(index + nodeModulesToken.length));
+}
+
+function packageNameFromSpecifier(specifier: string): string {
+    const tokens = specifier.split("/");
+    return tokens[0].startsWith("@") ? tokens[0] + "/" + tokens[1] : tokens[0];
+}
+
+function checkSizeBudgets(stats: BundleStats, budgets: SizeBudgets): string[] {
+    const violations: string[] = [];
+
+    const { total, packages = {} } = budgets;
+    if (total !== undefined && stats.totalSize > total) {
+        violations.push(`bundle is ${stats.totalSize} bytes, budget is ${total}`);
+    }
+
+    for (const [name, budget] of Object.entries(packages)) {
+        const size = stats.packages.find(p => p.name === name)?.size ?? 0;
+        if (size > budget) {
+            violations.push(`${name} is ${size} bytes, budget is ${budget}`);
+        }
+    }
+
+    return violations;
+}
+
+// Hoists the ES modules into the scope of one IIFE, in the order they would run as modules, renaming top-level bindings
+// that would clash. CommonJS modules, and everything they depend on, are wrapped in factories that run on first require.
+function linkScript(entrypoint: EntrypointName, output: Map<string, string>, modules: Map<string, JSModule>,
+        wrappedModules: Set<string>, sourceMaps: SourceMaps): string {
+    const names = Array.from(output.keys()).filter(name => !name.endsWith(".map"));
+    names.sort();
+
+    const assetNames = new Set(names);
+    const aliases = new Map<string, string>();
+    for (const [name, mod] of modules) {
+        for (const alias of mod.aliases) {
+            aliases.set(alias, name);
+        }
+    }
+
+    const entrypointName = crosspath.normalize(entrypoint.output);
+    const scriptModules = new Map<string, ScriptModule>();
+    const queue = [entrypointName];
+    let name: string | undefined;
+    while ((name = queue.shift()) !== undefined) {
+        if (scriptModules.has(name)) {
+            continue;
+        }
+        const code = output.get(name);
+        if (code === undefined) {
+            throw new Error(`Unable to link ${name}: module not found`);
+        }
+        const map = (sourceMaps === "included") ? output.get(name + ".map") ?? null : null;
+        const hoisted = modules.get(name)?.type === "esm" && !wrappedModules.has(name);
+        const mod = parseScriptModule(name, code, map, hoisted, assetNames, aliases);
+        scriptModules.set(name, mod);
+        queue.push(...mod.requests, ...mod.dynamicImports.values(), ...mod.requireCalls.values());
+    }
+
+    // Dependencies run before their importers, except for CommonJS ones, which run where they are first imported.
+    const steps: ScriptStep[] = [];
+    const visited = new Set<string>();
+    const required = new Set<string>();
+    const visit = (mod: ScriptModule): void => {
+        if (visited.has(mod.name)) {
+            return;
+        }
+        visited.add(mod.name);
+        for (const target of mod.requests) {
+            const dependency = scriptModules.get(target)!;
+            if (dependency.hoisted) {
+                visit(dependency);
+            } else if (!required.has(target)) {
+                required.add(target);
+                steps.push({ kind: "require", target });
+            }
+        }
+        steps.push({ kind: "module", name: mod.name });
+    };
+    for (const mod of scriptModules.values()) {
+        if (mod.hoisted) {
+            visit(mod);
+        }
+    }
+
+    const nameCounts = new Map<string, number>();
+    for (const mod of scriptModules.values()) {
+        for (const name of mod.variableNames) {
+            nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1);
+        }
+    }
+    const allocatedNames = new Set<string>();
+    const syntheticNames = new Map<string, string>();
+    const helpers = new Map<ScriptHelper, string>();
+
+    for (const step of steps) {
+        if (step.kind !== "module") {
+            continue;
+        }
+        const mod = scriptModules.get(step.name)!;
+        for (const local of mod.locals.keys()) {
+            let final: string;
+            if (local === defaultExportLocal) {
+                final = allocateName(identifierStemOf(mod.name) + "_default");
+            } else if (nameCounts.get(local) === 1 && !allocatedNames.has(local)) {
+                final = local;
+                allocatedNames.add(local);
+            } else {
+                final = allocateName(local);
+            }
+            mod.locals.set(local, final);
+        }
+    }
+
+    const namespaces = new Map<string, string>();
+    const pendingNamespaces: string[] = [];
+
+    const hoistedCode = new Map<string, [code: string, map: string | null]>();
+    for (const mod of scriptModules.values()) {
+        if (mod.hoisted) {
+            hoistedCode.set(mod.name, rewriteHoistedModule(mod));
+        }
+    }
+
+    let target: string | undefined;
+    while ((target = pendingNamespaces.shift()) !== undefined) {
+        namespaces.set(target, makeNamespace(scriptModules.get(target)!));
+    }
+
+    const pieces: ScriptPiece[] = [];
+    for (const mod of scriptModules.values()) {
+        if (mod.hoisted) {
+            continue;
+        }
+        const [code, map] = rewriteWrappedModule(mod);
+        pieces.push({
+            text: `var ${requireVariableOf(mod.name)} = ${helper("commonJS")}(function (module, exports, require) {\n`,
+            map: null,
+        });
+        pieces.push({ text: code + "\n", map });
+        pieces.push({ text: "});\n", map: null });
+    }
+    for (const step of steps) {
+        if (step.kind === "require") {
+            const exportsVariable = exportsVariableOf(step.target);
+            let text = `var ${exportsVariable} = ${requireVariableOf(step.target)}();\n`;
+            const defaultVariable = syntheticNames.get("default\0" + step.target);
+            if (defaultVariable !== undefined) {
+                text += `var ${defaultVariable} = ${helper("importDefault")}(${exportsVariable});\n`;
+            }
+            const namespaceVariable = syntheticNames.get("namespace\0" + step.target);
+            if (namespaceVariable !== undefined) {
+                text += `var ${namespaceVariable} = ${helper("importStar")}(${exportsVariable});\n`;
+            }
+            pieces.push({ text, map: null });
+        } else {
+            const namespace = namespaces.get(step.name);
+            if (namespace !== undefined) {
+                pieces.push({ text: namespace, map: null });
+            }
+            const [code, map] = hoistedCode.get(step.name)!;
+            pieces.push({ text: code + "\n", map });
+        }
+    }
+    if (!scriptModules.get(entrypointName)!.hoisted) {
+        pieces.push({ text: `${requireVariableOf(entrypointName)}();\n`, map: null });
+    }
+
+    const chunks: string[] = [];
+    let lineOffset = 0;
+    function emit(chunk: string): void {
+        chunks.push(chunk);
+        lineOffset += chunk.split("\n").length - 1;
+    }
+
+    const combinedMap = new GenMapping({ file: crosspath.basename(entrypoint.output) });
+
+    emit("(function () {\n");
+    // CommonJS modules may rely on sloppy mode, and all modules share the strictness of the IIFE.
+    const isStrict = !Array.from(scriptModules.keys()).some(name => {
+        const mod = modules.get(name);
+        return mod !== undefined && mod.type === "cjs" && !isStubModulePath(mod.path);
+    });
+    if (isStrict) {
+        emit(`"use strict";\n`);
+    }
+    for (const [kind, name] of helpers) {
+        emit(makeScriptHelper(kind, name));
+    }
+    for (const { text, map } of pieces) {
+        if (map !== null) {
+            appendSourceMap(combinedMap, new TraceMap(map), lineOffset);
+        }
+        emit(text);
+    }
+    emit("})();\n");
+
+    if (sourceMaps === "included") {
+        const encodedMap = Buffer.from(JSON.stringify(toEncodedMap(combinedMap))).toString("base64");
+        chunks.push(`//# sourceMappingURL=data:application/json;base64,${encodedMap}\n`);
+    }
+
+    return chunks.join("");
+
+    function allocateName(base: string): string {
+        let candidate = base;
+        let serial = 1;
+        while (nameCounts.has(candidate) || allocatedNames.has(candidate)) {
+            candidate = base + serial;
+            serial++;
+        }
+        allocatedNames.add(candidate);
+        return candidate;
+    }
+
+    function syntheticName(key: string, base: string): string {
+        let name = syntheticNames.get(key);
+        if (name === undefined) {
+            name = allocateName(base);
+            syntheticNames.set(key, name);
+        }
+        return name;
+    }
+
+    function helper(kind: ScriptHelper): string {
+        let name = helpers.get(kind);
+        if (name === undefined) {
+            name = allocateName("__" + kind);
+            helpers.set(kind, name);
+        }
+        return name;
+    }
+
+    function requireVariableOf(target: string): string {
+        return syntheticName("require\0" + target, "require_" + identifierStemOf(target));
+    }
+
+    function exportsVariableOf(target: string): string {
+        return syntheticName("exports\0" + target, identifierStemOf(target) + "_exports");
+    }
+
+    function namespaceOf(target: string): ScriptBinding {
+        const key = "namespace\0" + target;
+        if (scriptModules.get(target)!.hoisted && !syntheticNames.has(key)) {
+            pendingNamespaces.push(target);
+        }
+        return { expression: syntheticName(key, identifierStemOf(target) + "_ns"), isMember: false };
+    }
+
+    function bindingOf(mod: ScriptModule, local: string, seen: Set<string>): ScriptBinding {
+        const imp = mod.imports.get(local);
+        if (imp === undefined) {
+            return { expression: mod.locals.get(local)!, isMember: false };
+        }
+
+        const binding = (imp.name === null) ? namespaceOf(imp.target) : resolveExport(imp.target, imp.name, seen);
+        if (binding === null) {
+            throw new Error(`Unable to link ${mod.name}: ${imp.target} does not provide an export named '${imp.name}'`);
+        }
+        return binding;
+    }
+
+    function resolveExport(target: string, name: string, seen: Set<string>): ScriptBinding | null {
+        const mod = scriptModules.get(target)!;
+        if (!mod.hoisted) {
+            return (name === "default")
+                ? { expression: syntheticName("default\0" + target, identifierStemOf(target) + "_default") + ".default", isMember: true }
+                : { expression: exportsVariableOf(target) + propertyAccessFor(name), isMember: true };
+        }
+
+        const key = target + "\0" + name;
+        if (seen.has(key)) {
+            return null;
+        }
+        seen.add(key);
+
+        const entry = mod.exports.get(name);
+        if (entry !== undefined) {
+            switch (entry.kind) {
+                case "local":
+                    return bindingOf(mod, entry.local, seen);
+                case "reexport":
+                    return resolveExport(entry.target, entry.name, seen);
+                case "namespace":
+                    return namespaceOf(entry.target);
+            }
+        }
+        if (name === "default") {
+            return null;
+        }
+
+        // Names of CommonJS modules are only known at runtime, so they are looked up after the ES modules.
+        let fallback: ScriptBinding | null = null;
+        for (const star of mod.starExports) {
+            if (scriptModules.get(star)!.hoisted) {
+                const binding = resolveExport(star, name, seen);
+                if (binding !== null) {
+                    return binding;
+                }
+            } else if (fallback === null) {
+                fallback = resolveExport(star, name, seen);
+            }
+        }
+        return fallback;
+    }
+
+    function collectExportNames(mod: ScriptModule, names: Set<string>, dynamicSources: string[], seen: Set<string>): void {
+        if (seen.has(mod.name)) {
+            return;
+        }
+        seen.add(mod.name);
+
+        const isStar = seen.size !== 1;
+        for (const name of mod.exports.keys()) {
+            if (!isStar || name !== "default") {
+                names.add(name);
+            }
+        }
+        for (const star of mod.starExports) {
+            const starModule = scriptModules.get(star)!;
+            if (starModule.hoisted) {
+                collectExportNames(starModule, names, dynamicSources, seen);
+            } else {
+                dynamicSources.push(exportsVariableOf(star));
+            }
+        }
+    }
+
+    function makeNamespace(mod: ScriptModule): string {
+        const names = new Set<string>();
+        const dynamicSources: string[] = [];
+        collectExportNames(mod, names, dynamicSources, new Set());
+
+        const getters = Array.from(names).map(name => {
+            const binding = resolveExport(mod.name, name, new Set())!;
+            return `[${JSON.stringify(name)}]: () => ${binding.expression}`;
+        });
+        const args = [`{ ${getters.join(", ")} }`, ...dynamicSources];
+        return `var ${namespaceOf(mod.name).expression} = ${helper("namespace")}(${args.join(", ")});\n`;
+    }
+
+    function dynamicImportOf(target: string): string {
+        const namespace = scriptModules.get(target)!.hoisted
+            ? namespaceOf(target).expression
+            : `${helper("importStar")}(${requireVariableOf(target)}())`;
+        return `Promise.resolve().then(() => ${namespace})`;
+    }
+
+    function rewriteHoistedModule(mod: ScriptModule): [code: string, map: string | null] {
+        const { file } = mod;
+        const edits: TextEdit[] = [];
+
+        for (const statement of file.statements) {
+            if (ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)) {
+                edits.push({ start: statement.getStart(file), end: statement.end, text: "" });
+                continue;
+            }
+
+            if (ts.isExportAssignment(statement)) {
+                edits.push({
+                    start: statement.getStart(file),
+                    end: statement.expression.getStart(file),
+                    text: `var ${mod.locals.get(defaultExportLocal)} = `,
+                });
+                visit(statement.expression);
+                continue;
+            }
+
+            const modifiers = exportModifiersOf(statement);
+            for (const modifier of modifiers) {
+                let end = modifier.end;
+                while (file.text[end] === " ") {
+                    end++;
+                }
+                edits.push({ start: modifier.getStart(file), end, text: "" });
+            }
+            if (modifiers.length !== 0 && (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) &&
+                    statement.name === undefined) {
+                const position = ts.isFunctionDeclaration(statement)
+                    ? file.text.lastIndexOf("(", statement.parameters.pos)
+                    : file.text.indexOf("class", modifiers[modifiers.length - 1].end) + "class".length;
+                const separator = /\s/.test(file.text[position - 1]) ? "" : " ";
+                edits.push({ start: position, end: position, text: separator + mod.locals.get(defaultExportLocal) });
+            }
+
+            visit(statement);
+        }
+
+        if (edits.length === 0) {
+            return [file.text, mod.map];
+        }
+        const [code, translate] = applyTextEdits(file.text, edits);
+        return [code, (mod.map !== null) ? remapGeneratedPositions(mod.map, translate) : null];
+
+        function visit(node: ts.Node): void {
+            if (ts.isIdentifier(node)) {
+                rewriteIdentifier(node);
+                return;
+            }
+
+            if (node.kind === ts.SyntaxKind.ThisKeyword && isTopLevelThis(node)) {
+                edits.push({ start: node.getStart(file), end: node.end, text: "(void 0)" });
+                return;
+            }
+
+            if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+                const target = mod.dynamicImports.get(node);
+                if (target !== undefined) {
+                    edits.push({ start: node.getStart(file), end: node.end, text: dynamicImportOf(target) });
+                    return;
+                }
+            }
+
+            ts.forEachChild(node, visit);
+        }
+
+        function rewriteIdentifier(node: ts.Identifier): void {
+            if (!isVariableName(node)) {
+                return;
+            }
+
+            const { parent } = node;
+            const isDeclarationName = (ts.isFunctionDeclaration(parent) || ts.isClassDeclaration(parent)) && parent.name === node;
+            if (findDeclaringScope(node.text, isDeclarationName ? parent : node) !== file) {
+                return;
+            }
+
+            const binding = bindingOf(mod, node.text, new Set());
+            if (binding.expression === node.text) {
+                return;
+            }
+
+            let text = binding.expression;
+            if ((ts.isShorthandPropertyAssignment(parent) && parent.name === node) ||
+                    (ts.isBindingElement(parent) && parent.name === node && parent.propertyName === undefined &&
+                        parent.dotDotDotToken === undefined && ts.isObjectBindingPattern(parent.parent))) {
+                text = `${node.text}: ${text}`;
+            } else if (binding.isMember &&
+                    ((ts.isCallExpression(parent) && parent.expression === node) ||
+                        (ts.isTaggedTemplateExpression(parent) && parent.tag === node))) {
+                text = `(0, ${text})`;
+            }
+            edits.push({ start: node.getStart(file), end: node.end, text });
+        }
+    }
+
+    function rewriteWrappedModule(mod: ScriptModule): [code: string, map: string | null] {
+        const { file } = mod;
+        if (mod.requireCalls.size === 0) {
+            return [file.text, mod.map];
+        }
+
+        const edits: TextEdit[] = Array.from(mod.requireCalls).map(([call, target]) => ({
+            start: call.getStart(file),
+            end: call.end,
+            text: `${requireVariableOf(target)}()`,
+        }));
+        const [code, translate] = applyTextEdits(file.text, edits);
+        return [code, (mod.map !== null) ? remapGeneratedPositions(mod.map, translate) : null];
+    }
+}
+
+interface ScriptModule {
+    name: string;
+    file: ts.SourceFile;
+    map: string | null;
+    hoisted: boolean;
+    requests: string[];
+    imports: Map<string, ScriptImport>;
+    exports: Map<string, ScriptExport>;
+    starExports: string[];
+    locals: Map<string, string>;
+    dynamicImports: Map<ts.Node, string>;
+    requireCalls: Map<ts.Node, string>;
+    variableNames: Set<string>;
+}
+
+interface ScriptImport {
+    target: string;
+    name: string | null;
+}
+
+type ScriptExport =
+    | { kind: "local", local: string }
+    | { kind: "reexport", target: string, name: string }
+    | { kind: "namespace", target: string };
+
+interface ScriptBinding {
+    expression: string;
+    isMember: boolean;
+}
+
+type ScriptStep =
+    | { kind: "require", target: string }
+    | { kind: "module", name: string };
+
+interface ScriptPiece {
+    text: string;
+    map: string | null;
+}
+
+type ScriptHelper = "commonJS" | "importDefault" | "importStar" | "namespace";
+
+// Stands in for the binding of an anonymous default export, which cannot clash with an identifier.
+const defaultExportLocal = "*default*";
+
+function parseScriptModule(name: string, code: string, map: string | null, hoisted: boolean, assetNames: Set<string>,
+        aliases: Map<string, string>): ScriptModule {
+    const file = ts.createSourceFile(name, code, ts.ScriptTarget.ES2020, true, ts.ScriptKind.JS);
+    const mod: ScriptModule = {
+        name,
+        file,
+        map,
+        hoisted,
+        requests: [],
+        imports: new Map(),
+        exports: new Map(),
+        starExports: [],
+        locals: new Map(),
+        dynamicImports: new Map(),
+        requireCalls: new Map(),
+        variableNames: new Set(),
+    };
+
+    const resolve = (specifier: ts.Expression): string => {
+        const { text } = specifier as ts.StringLiteral;
+        const target = resolveAssetName(text, name, assetNames, aliases);
+        if (target === null) {
+            throw new Error(`Unable to link ${name}: cannot find module '${text}'`);
+        }
+        return target;
+    };
+
+    if (hoisted) {
+        for (const statement of file.statements) {
+            if (ts.isImportDeclaration(statement)) {
+                const target = resolve(statement.moduleSpecifier);
+                mod.requests.push(target);
+
+                const clause = statement.importClause;
+                if (clause === undefined) {
+                    continue;
+                }
+                if (clause.name !== undefined) {
+                    mod.imports.set(clause.name.text, { target, name: "default" });
+                }
+                const { namedBindings } = clause;
+                if (namedBindings !== undefined) {
+                    if (ts.isNamespaceImport(namedBindings)) {
+                        mod.imports.set(namedBindings.name.text, { target, name: null });
+                    } else {
+                        for (const element of namedBindings.elements) {
+                            mod.imports.set(element.name.text, { target, name: (element.propertyName ?? element.name).text });
+                        }
+                    }
+                }
+            } else if (ts.isExportDeclaration(statement)) {
+                const { exportClause, moduleSpecifier } = statement;
+                const target = (moduleSpecifier !== undefined) ? resolve(moduleSpecifier) : null;
+                if (target !== null) {
+                    mod.requests.push(target);
+                }
+
+                if (exportClause === undefined) {
+                    mod.starExports.push(target!);
+                } else if (ts.isNamespaceExport(exportClause)) {
+                    mod.exports.set(exportClause.name.text, { kind: "namespace", target: target! });
+                } else {
+                    for (const element of exportClause.elements) {
+                        const local = (element.propertyName ?? element.name).text;
+                        mod.exports.set(element.name.text, (target !== null)
+                            ? { kind: "reexport", target, name: local }
+                            : { kind: "local", local });
+                    }
+                }
+            } else if (ts.isExportAssignment(statement)) {
+                mod.exports.set("default", { kind: "local", local: defaultExportLocal });
+                mod.locals.set(defaultExportLocal, defaultExportLocal);
+            } else {
+                const modifiers = exportModifiersOf(statement);
+                if (modifiers.length === 0) {
+                    continue;
+                }
+                if (ts.isVariableStatement(statement)) {
+                    const names = new Set<string>();
+                    for (const decl of statement.declarationList.declarations) {
+                        addBindingNames(decl.name, names);
+                    }
+                    for (const local of names) {
+                        mod.exports.set(local, { kind: "local", local });
+                    }
+                } else if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+                    const local = statement.name?.text ?? defaultExportLocal;
+                    if (local === defaultExportLocal) {
+                        mod.locals.set(local, local);
+                    }
+                    const isDefault = modifiers.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+                    mod.exports.set(isDefault ? "default" : local, { kind: "local", local });
+                }
+            }
+        }
+
+        for (const local of declaredNamesIn(file)) {
+            if (!mod.imports.has(local)) {
+                mod.locals.set(local, local);
+            }
+        }
+    }
+
+    ts.forEachChild(file, visit);
+
+    function visit(node: ts.Node): void {
+        // Imported bindings are replaced by what they refer to, so their names cannot clash.
+        if (hoisted && (ts.isImportDeclaration(node) || ts.isExportDeclaration(node))) {
+            return;
+        }
+
+        if (ts.isIdentifier(node)) {
+            if (isVariableName(node) &&
+                    !(hoisted && mod.imports.has(node.text) && findDeclaringScope(node.text, node) === file)) {
+                mod.variableNames.add(node.text);
+            }
+            return;
+        }
+
+        if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])) {
+            const { expression } = node;
+            const specifier = node.arguments[0].text;
+            if (hoisted && expression.kind === ts.SyntaxKind.ImportKeyword) {
+                const target = resolveAssetName(specifier, name, assetNames, aliases);
+                if (target !== null) {
+                    mod.dynamicImports.set(node, target);
+                }
+            } else if (!hoisted && ts.isIdentifier(expression) && expression.text === "require" &&
+                    !isLocallyDeclared("require", expression)) {
+                const target = resolveAssetName(specifier, name, assetNames, aliases);
+                if (target !== null) {
+                    mod.requireCalls.set(node, target);
+                }
+            }
+        }
+
+        ts.forEachChild(node, visit);
+    }
+
+    return mod;
+}
+
+function exportModifiersOf(statement: ts.Statement): ts.Modifier[] {
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+    return (modifiers ?? []).filter((modifier: ts.Modifier) =>
+        modifier.kind === ts.SyntaxKind.ExportKeyword || modifier.kind === ts.SyntaxKind.DefaultKeyword);
+}
+
+function isVariableName(node: ts.Identifier): boolean {
+    const { parent } = node;
+    if (isPropertyName(parent, node)) {
+        return false;
+    }
+    if (ts.isPropertyAccessExpression(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent) ||
+            ts.isMethodDeclaration(parent) || ts.isGetAccessorDeclaration(parent) || ts.isSetAccessorDeclaration(parent) ||
+            ts.isEnumMember(parent)) {
+        return parent.name !== node;
+    }
+    return true;
+}
+
+function isTopLevelThis(node: ts.Node): boolean {
+    for (let scope = node.parent as ts.Node | undefined; scope !== undefined; scope = scope.parent) {
+        if ((ts.isFunctionLike(scope) && !ts.isArrowFunction(scope)) || ts.isClassLike(scope)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function identifierStemOf(name: string): string {
+    const base = crosspath.basename(name);
+    let stem = base.substring(0, (base.indexOf(".") !== -1) ? base.indexOf(".") : base.length);
+    if (stem === "index") {
+        stem = crosspath.basename(crosspath.dirname(name)) || stem;
+    }
+    stem = stem.replace(/[^\w$]/g, "_");
+    return /^[0-9]/.test(stem) ? "_" + stem : stem;
+}
+
+function propertyAccessFor(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? "." + name : `[${JSON.stringify(name)}]`;
+}
+
+function makeScriptHelper(kind: ScriptHelper, name: string): string {
+    switch (kind) {
+        case "commonJS":
+            return `function ${name}(factory) {
+    let module;
+    return () => {
+        if (module === undefined) {
+            module = { exports: {} };
+            factory.call(module.exports, module, module.exports, specifier => {
+                throw new Error("Cannot find module '" + specifier + "'");
+            });
+        }
+        return module.exports;
+    };
+}
+`;
+        case "importDefault":
+            return `function ${name}(mod) {
+    return (mod && mod.__esModule) ? mod : { default: mod };
+}
+`;
+        case "importStar":
+            return `function ${name}(mod) {
+    if (mod && mod.__esModule) {
+        return mod;
+    }
+    const result = {};
+    if (mod != null) {
+        for (const key of Object.keys(mod)) {
+            if (key !== "default") {
+                result[key] = mod[key];
+            }
+        }
+    }
+    result.default = mod;
+    return result;
+}
+`;
+        case "namespace":
+            return `function ${name}(getters, ...sources) {
+    const ns = Object.create(null);
+    for (const key of Object.keys(getters)) {
+        Object.defineProperty(ns, key, { enumerable: true, get: getters[key] });
+    }
+    for (const source of sources) {
+        for (const key of Object.keys(source)) {
+            if (key !== "default" && !(key in ns)) {
+                Object.defineProperty(ns, key, { enumerable: true, get: () => source[key] });
+            }
+        }
+    }
+    Object.defineProperty(ns, Symbol.toStringTag, { value: "Module" });
+    return Object.freeze(ns);
+}
+`;
+    }
+}
+
+function transpileToCommonJS(name: string, code: string, map: string | null, sourceRoot: string):
+        [code: string, map: string | null] {
+    const result = ts.transpileModule(code, {
+        fileName: name,
+        compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2020,
+            esModuleInterop: true,
+            sourceMap: map !== null,
+        },
+    });
+    const cjsCode = stripSourceMappingURL(result.outputText);
+    if (map === null || result.sourceMapText === undefined) {
+        return [cjsCode, null];
+    }
+    return [cjsCode, chainSourceMaps(new TraceMap(result.sourceMapText), new TraceMap(map), crosspath.basename(name), sourceRoot)];
+}
+
+function relativeSpecifierFor(target: string, referrer: string): string {
+    const specifier = crosspath.relative(crosspath.dirname(referrer), target);
+    return specifier.startsWith("../") ? specifier : "./" + specifier;
+}
+
+function rewriteSpecifiers(name: string, code: string, map: string | null, rewrites: Map<string, string> | undefined):
+        [code: string, map: string | null] {
+    if (rewrites === undefined) {
+        return [code, map];
+    }
+
+    const edits: TextEdit[] = [];
+    const file = ts.createSourceFile(name, code, ts.ScriptTarget.ES2020, true, ts.ScriptKind.JS);
+    ts.forEachChild(file, visit);
+
+    function visit(node: ts.Node) {
+        let specifier: ts.Expression | undefined;
+        if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+            specifier = node.moduleSpecifier;
+        } else if (ts.isCallExpression(node) && node.arguments.length === 1 &&
+                (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+                    (ts.isIdentifier(node.expression) && node.expression.escapedText === "require"))) {
+            specifier = node.arguments[0];
+        }
+
+        const target = (specifier !== undefined && ts.isStringLiteralLike(specifier)) ? rewrites!.get(specifier.text) : undefined;
+        if (target !== undefined) {
+            edits.push({ start: specifier!.getStart(file), end: specifier!.end, text: JSON.stringify(target) });
+        }
+
+        ts.forEachChild(node, visit);
+    }
+
+    if (edits.length === 0) {
+        return [code, map];
+    }
+
+    const [newCode, translate] = applyTextEdits(code, edits);
+    return [newCode, (map !== null) ? remapGeneratedPositions(map, translate) : null];
+}
+
+function resolveAssetName(specifier: string, referrer: string, assetNames: Set<string>, aliases: Map<string, string>): string | null {
+    let base: string;
+    if (specifier.startsWith("./") || specifier.startsWith("../")) {
+        base = crosspath.join(crosspath.dirname(referrer), specifier);
+    } else {
+        base = specifier;
+    }
+
+    const candidates = [
+        base,
+        ...jsExtensions.map(ext => base + ext),
+        base + ".json",
+        ...jsExtensions.map(ext => crosspath.join(base, "index" + ext)),
+    ];
+    for (const candidate of candidates) {
+        if (assetNames.has(candidate)) {
+            return candidate;
+        }
+        const target = aliases.get(candidate);
+        if (target !== undefined) {
+            return target;
+        }
+    }
+
+    return null;
+}
+
+function readUpstreamSourceMap(path: string, text: string, system: ts.System): TraceMap | null {
+    const match = sourceMappingURLPattern.exec(text);
+    if (match === null) {
+        return null;
+    }
+    const url = match[1];
+
+    let mapPath = path;
+    let rawMap: string | undefined;
+    const dataUrl = /^data:application\/json(?:;charset=[^;,]+)?(;base64)?,(.*)$/.exec(url);
+    if (dataUrl !== null) {
+        const [, base64, payload] = dataUrl;
+        rawMap = (base64 !== undefined) ? system.base64decode?.(payload) : decodeURIComponent(payload);
+    } else {
+        mapPath = crosspath.join(crosspath.dirname(path), decodeURI(url));
+        rawMap = system.readFile(mapPath);
+    }
+    if (rawMap === undefined) {
+        return null;
+    }
+
+    try {
+        return new TraceMap(rawMap, mapPath);
+    } catch (e) {
+        return null;
+    }
+}
+
+function stripSourceMappingURL(text: string): string {
+    return text.replace(sourceMappingURLPattern, "");
+}
+
+function chainSourceMaps(map: TraceMap | null, upstreamMap: TraceMap, file: string, sourceRoot: string): string {
+    const chainedMap = new GenMapping({ file, sourceRoot: sourceRoot + "/" });
+    const sources = new Set<string>();
+
+    const addMapping = (generated: { line: number, column: number }, source: string, original: { line: number, column: number },
+            name: string | null): void => {
+        sources.add(source);
+        const relativeSource = crosspath.relative(sourceRoot, source);
+        if (name !== null) {
+            maybeAddMapping(chainedMap, { generated, source: relativeSource, original, name });
+        } else {
+            maybeAddMapping(chainedMap, { generated, source: relativeSource, original });
+        }
+    };
+
+    if (map === null) {
+        eachMapping(upstreamMap, mapping => {
+            if (mapping.source === null) {
+                return;
+            }
+            addMapping({ line: mapping.generatedLine, column: mapping.generatedColumn }, mapping.source,
+                { line: mapping.originalLine, column: mapping.originalColumn }, mapping.name);
+        });
+    } else {
+        eachMapping(map, mapping => {
+            if (mapping.source === null) {
+                return;
+            }
+            const original = originalPositionFor(upstreamMap, { line: mapping.originalLine, column: mapping.originalColumn });
+            if (original.source === null) {
+                return;
+            }
+            addMapping({ line: mapping.generatedLine, column: mapping.generatedColumn }, original.source,
+                { line: original.line, column: original.column }, original.name ?? mapping.name);
+        });
+    }
+
+    for (const source of sources) {
+        const content = sourceContentFor(upstreamMap, source);
+        if (content !== null) {
+            setSourceContent(chainedMap, crosspath.relative(sourceRoot, source), content);
+        }
+    }
+
+    return JSON.stringify(toEncodedMap(chainedMap));
+}
+
+function remapGeneratedPositions(map: string, translate: PositionTranslator): string {
+    const decoded = decodedMap(new TraceMap(map));
+
+    const mappings: SourceMapSegment[][] = decoded.mappings.map(() => []);
+    decoded.mappings.forEach((segments, line) => {
+        for (const [column, ...rest] of segments) {
+            const [newLine, newColumn] = translate(line, column);
+            mappings[newLine].push([newColumn, ...rest] as SourceMapSegment);
+        }
+    });
+
+    return JSON.stringify(encodedMap(new TraceMap({ ...decoded, mappings })));
+}
+
+function appendSourceMap(combinedMap: GenMapping, map: TraceMap, lineOffset: number): void {
+    eachMapping(map, mapping => {
+        if (mapping.source === null) {
+            return;
+        }
+
+        const generated = { line: mapping.generatedLine + lineOffset, column: mapping.generatedColumn };
+        const original = { line: mapping.originalLine, column: mapping.originalColumn };
+        if (mapping.name !== null) {
+            maybeAddMapping(combinedMap, { generated, source: mapping.source, original, name: mapping.name });
+        } else {
+            maybeAddMapping(combinedMap, { generated, source: mapping.source, original });
+        }
+    });
+
+    const { resolvedSources, sourcesContent } = map;
+    if (sourcesContent !== undefined) {
+        resolvedSources.forEach((source, i) => {
+            const content = sourcesContent[i];
+            if (content !== null && content !== undefined) {
+                setSourceContent(combinedMap, source, content);
+            }
+        });
+    }
+}
+
 interface Bundler {
     events: TypedEmitter<BundlerEvents>;
 
-    bundle(program: ts.Program): string;
+    bundle(program: ts.Program): BundlerResult;
+    bundleAsync(program: ts.Program, minifier: Minifier | null, signal?: AbortSignal): Promise<BundlerResult>;
+    resolve(program: ts.Program): void;
     invalidate(path: string): void;
 }
 
+interface BundlerResult {
+    bundle: string;
+    entrypoint: string;
+    assets: AssetInfo[];
+    dependencies: DependencyGraph;
+    timings: Pick<BuildTimings, "bundle" | "minify">;
+}
+
 type BundlerEvents = {
     externalSourceFileAdded: (file: ts.SourceFile) => void,
+    dataFileAdded: (path: string) => void,
+    diagnostic: (diagnostic: ts.Diagnostic) => void,
+    stats: (stats: BundleStats) => void,
 };
 
+const enum BundlerDiagnosticCode {
+    NonLiteralDynamicImport = 10001,
+    UnresolvedModule = 10002,
+    UnsupportedExternal = 10003,
+    SizeBudgetExceeded = 10004,
+    UnreadableDataFile = 10005,
+    InvalidConfiguration = 10006,
+    UnexpectedError = 10007,
+}
+
+function makeBundlerDiagnostic(code: BundlerDiagnosticCode, messageText: string | ts.DiagnosticMessageChain): ts.Diagnostic {
+    return {
+        file: undefined,
+        start: undefined,
+        length: undefined,
+        messageText,
+        category: ts.DiagnosticCategory.Error,
+        code,
+        source: "frida-compile",
+    };
+}
+
+function makeMessageChain(messageText: string, next?: ts.DiagnosticMessageChain[]): ts.DiagnosticMessageChain {
+    return {
+        messageText,
+        category: ts.DiagnosticCategory.Error,
+        code: 0,
+        next,
+    };
+}
+
+function programModuleTypeOf(sourcePath: string): ModuleType {
+    const ext = crosspath.extname(sourcePath);
+    return (ext === ".cjs" || ext === ".cts") ? "cjs" : "esm";
+}
+
 function detectModuleType(modPath: string, sys: ts.System): ModuleType {
+    switch (crosspath.extname(modPath)) {
+        case ".mjs":
+        case ".mts":
+            return "esm";
+        case ".cjs":
+        case ".cts":
+            return "cjs";
+    }
+
     let curDir = crosspath.dirname(modPath);
     while (true) {
         const rawPkgMeta = sys.readFile(crosspath.join(curDir, "package.json"));
@@ -684,89 +3538,538 @@ function detectModuleType(modPath: string, sys: ts.System): ModuleType {
             break;
         }
 
-        const nextDir = crosspath.dirname(curDir);
-        if (nextDir === curDir) {
-            break;
+        const nextDir = crosspath.dirname(curDir);
+        if (nextDir === curDir) {
+            break;
+        }
+        curDir = nextDir;
+    }
+
+    return "cjs";
+}
+
+function findPackageRoot(path: string, sys: ts.System): [dir: string, name: string] | null {
+    let curDir = crosspath.dirname(path);
+    while (true) {
+        const name = readPackageMeta(curDir, sys)?.name;
+        if (typeof name === "string") {
+            return [curDir, name];
+        }
+
+        const nextDir = crosspath.dirname(curDir);
+        if (nextDir === curDir) {
+            break;
+        }
+        curDir = nextDir;
+    }
+
+    return null;
+}
+
+function findPackageScope(path: string, sys: ts.System): string | null {
+    let curDir = crosspath.dirname(path);
+    while (true) {
+        if (sys.fileExists(crosspath.join(curDir, "package.json"))) {
+            return curDir;
+        }
+
+        const nextDir = crosspath.dirname(curDir);
+        if (nextDir === curDir) {
+            break;
+        }
+        curDir = nextDir;
+    }
+
+    return null;
+}
+
+type ResolveModuleReferenceResult = [path: string, needsAlias: boolean];
+
+function resolveModuleReference(ref: ModuleReference, assets: Assets, options: ResolverOptions, system: ts.System,
+        tried?: string[]): ResolveModuleReferenceResult {
+    const refName = ref.name;
+    const requesterPath = ref.referrer.path;
+    const conditions = [...options.conditions, (ref.referrer.type === "cjs") ? "require" : "import", "default"];
+
+    let modPath: string;
+    let needsAlias = false;
+    const alias = crosspath.isAbsolute(refName) ? null : matchAlias(refName, options.aliases);
+    if (alias !== null) {
+        const [specifier, target, subpath] = alias;
+        if (target === false) {
+            return [stubModulePathFor(refName), true];
+        }
+        if (!crosspath.isAbsolute(target)) {
+            // An alias never applies to its own target, so that e.g. "x": "x/sub" refers to the package.
+            const aliases = new Map(options.aliases);
+            aliases.delete(specifier);
+            const [targetPath] = resolveModuleReference({ name: target + subpath, referrer: ref.referrer }, assets,
+                { ...options, aliases }, system, tried);
+            return [targetPath, true];
+        }
+        modPath = target + subpath;
+        needsAlias = true;
+    } else if (refName.startsWith("#")) {
+        const target = resolvePackageImports(refName, requesterPath, conditions, system);
+        if (!crosspath.isAbsolute(target)) {
+            const [targetPath] = resolveModuleReference({ name: target, referrer: ref.referrer }, assets, options, system, tried);
+            return [targetPath, true];
+        }
+        const emittedPath = probeEmittedPath(target, options.outputLayout, system, tried);
+        if (emittedPath !== null) {
+            return [emittedPath, true];
+        }
+        modPath = target;
+        needsAlias = true;
+    } else if (crosspath.isAbsolute(refName)) {
+        modPath = refName;
+    } else {
+        const mappedPath = resolvePathMapping(refName, options, system, tried);
+        if (mappedPath !== null) {
+            return [mappedPath, true];
+        }
+
+        const tokens = refName.split("/");
+
+        let pkgName: string;
+        let subPath: string[];
+        if (tokens[0].startsWith("@")) {
+            pkgName = tokens[0] + "/" + tokens[1];
+            subPath = tokens.slice(2);
+        } else {
+            pkgName = tokens[0];
+            subPath = tokens.slice(1);
+        }
+
+        let pkgDir: string;
+        const shimPath = assets.shims.get(pkgName);
+        if (shimPath !== undefined) {
+            if (isJSFilePath(shimPath)) {
+                return [shimPath, true];
+            }
+            pkgDir = shimPath;
+            needsAlias = true;
+        } else {
+            const linkedCompilerRoot = crosspath.join(assets.projectNodeModulesDir, "frida-compile");
+            const {shimDir} = assets;
+            if (requesterPath.startsWith(compilerRoot + "/") ||
+                    requesterPath.startsWith(linkedCompilerRoot + "/") ||
+                    requesterPath.startsWith(shimDir + "/")) {
+                pkgDir = crosspath.join(shimDir, pkgName);
+            } else {
+                pkgDir = findPackageDir(pkgName, requesterPath, system, tried)
+                    ?? crosspath.join(assets.projectNodeModulesDir, pkgName);
+            }
+            needsAlias = subPath.length > 0;
+        }
+
+        const pkgMeta = readPackageMeta(pkgDir, system);
+        if (pkgMeta?.exports !== undefined) {
+            const subpathKey = (subPath.length > 0) ? "./" + subPath.join("/") : ".";
+            const target = resolvePackageExports(pkgDir, pkgMeta.exports, subpathKey, conditions);
+            tried?.push(target);
+            if (!system.fileExists(target)) {
+                throw new Error("unable to resolve module");
+            }
+            return [target, true];
+        }
+
+        modPath = crosspath.join(pkgDir, ...subPath);
+    }
+
+    if (system.directoryExists(modPath)) {
+        const pkgMeta = readPackageMeta(modPath, system);
+        if (pkgMeta !== undefined) {
+            const pkgMain = pkgMeta.module ?? pkgMeta.main ?? "index.js";
+            let pkgEntrypoint = crosspath.join(modPath, pkgMain);
+            if (system.directoryExists(pkgEntrypoint)) {
+                pkgEntrypoint = crosspath.join(pkgEntrypoint, "index");
+            }
+
+            modPath = pkgEntrypoint;
+            needsAlias = true;
+        } else {
+            modPath = crosspath.join(modPath, "index");
+        }
+    }
+
+    const filePath = probeJSFilePath(modPath, system, tried);
+    if (filePath === null) {
+        throw new Error("unable to resolve module");
+    }
+
+    return [filePath, needsAlias];
+}
+
+function isExternalModule(name: string, externals: string[]): boolean {
+    if (crosspath.isAbsolute(name)) {
+        return false;
+    }
+
+    return externals.some(pattern => {
+        if (pattern.endsWith("*")) {
+            return name.startsWith(pattern.substring(0, pattern.length - 1));
+        }
+        return name === pattern || name.startsWith(pattern + "/");
+    });
+}
+
+function matchAlias(name: string, aliases: Map<string, string | false>):
+        [specifier: string, target: string | false, subpath: string] | null {
+    const target = aliases.get(name);
+    if (target !== undefined) {
+        return [name, target, ""];
+    }
+
+    for (const [specifier, target] of aliases) {
+        if (name.startsWith(specifier + "/")) {
+            return [specifier, target, name.substring(specifier.length)];
+        }
+    }
+
+    return null;
+}
+
+function stubModulePathFor(name: string): string {
+    return crosspath.join(compilerRoot, "node_modules", stubModuleDirName, name + ".js");
+}
+
+function isStubModulePath(path: string): boolean {
+    return path.startsWith(crosspath.join(compilerRoot, "node_modules", stubModuleDirName) + "/");
+}
+
+function resolvePathMapping(name: string, options: ResolverOptions, system: ts.System, tried?: string[]): string | null {
+    const { paths, pathsBasePath, baseUrl } = options;
+    if (pathsBasePath === null) {
+        return null;
+    }
+
+    let substitutions: string[] | undefined;
+    let patternMatch = "";
+    if (paths.hasOwnProperty(name)) {
+        substitutions = paths[name];
+    } else {
+        let longestPrefixLength = -1;
+        for (const pattern of Object.keys(paths)) {
+            const starIndex = pattern.indexOf("*");
+            if (starIndex === -1) {
+                continue;
+            }
+
+            const prefix = pattern.substring(0, starIndex);
+            const suffix = pattern.substring(starIndex + 1);
+            if (prefix.length > longestPrefixLength && name.length >= prefix.length + suffix.length &&
+                    name.startsWith(prefix) && name.endsWith(suffix)) {
+                longestPrefixLength = prefix.length;
+                substitutions = paths[pattern];
+                patternMatch = name.substring(prefix.length, name.length - suffix.length);
+            }
+        }
+    }
+
+    const candidates = (substitutions ?? []).map(s => crosspath.join(pathsBasePath, s.replace("*", patternMatch)));
+    if (baseUrl !== null) {
+        candidates.push(crosspath.join(baseUrl, name));
+    }
+
+    for (const candidate of candidates) {
+        const path = probeSourcePath(candidate, system, tried);
+        if (path !== null) {
+            return path;
+        }
+    }
+
+    return null;
+}
+
+function probeSourcePath(path: string, system: ts.System, tried?: string[]): string | null {
+    const sourceExtensions = [".ts", ".tsx", ".mts", ".cts", ...jsExtensions];
+    const candidates = [
+        path,
+        ...sourceExtensions.map(ext => path + ext),
+        ...sourceExtensions.map(ext => crosspath.join(path, "index" + ext)),
+    ];
+    tried?.push(...candidates);
+
+    const match = candidates.find(candidate => system.fileExists(candidate));
+    if (match === undefined || /\.d\.[cm]?ts$/.test(match)) {
+        return null;
+    }
+
+    return jsFilePathFromSourcePath(match);
+}
+
+function probeEmittedPath(path: string, layout: OutputLayout | null, system: ts.System, tried?: string[]): string | null {
+    let sourceExtensions: string[];
+    switch (crosspath.extname(path)) {
+        case ".js":
+            sourceExtensions = [".ts", ".tsx"];
+            break;
+        case ".mjs":
+            sourceExtensions = [".mts"];
+            break;
+        case ".cjs":
+            sourceExtensions = [".cts"];
+            break;
+        default:
+            return null;
+    }
+
+    const stems = [path.substring(0, path.lastIndexOf("."))];
+    if (layout !== null && path.startsWith(layout.outDir + "/")) {
+        stems.unshift(layout.rootDir + stems[0].substring(layout.outDir.length));
+    }
+
+    const candidates = stems.flatMap(stem => sourceExtensions.map(ext => stem + ext));
+    tried?.push(...candidates);
+    const match = candidates.find(candidate => system.fileExists(candidate));
+    return (match !== undefined) ? jsFilePathFromSourcePath(match) : null;
+}
+
+function probeJSFilePath(path: string, system: ts.System, tried?: string[]): string | null {
+    const candidates = [path, ...jsExtensions.map(ext => path + ext)];
+    tried?.push(...candidates);
+    return candidates.find(candidate => system.fileExists(candidate)) ?? null;
+}
+
+function findPackageDir(pkgName: string, requesterPath: string, system: ts.System, tried?: string[]): string | null {
+    let curDir = crosspath.dirname(requesterPath);
+    while (true) {
+        if (crosspath.basename(curDir) !== "node_modules") {
+            const candidate = crosspath.join(curDir, "node_modules", pkgName);
+            tried?.push(candidate);
+            if (system.directoryExists(candidate)) {
+                return candidate;
+            }
+        }
+
+        const nextDir = crosspath.dirname(curDir);
+        if (nextDir === curDir) {
+            break;
+        }
+        curDir = nextDir;
+    }
+
+    return null;
+}
+
+interface PackageMeta {
+    name?: string;
+    type?: string;
+    main?: string;
+    module?: string;
+    exports?: unknown;
+    imports?: unknown;
+    dependencies?: PackageDependencies;
+    devDependencies?: PackageDependencies;
+    peerDependencies?: PackageDependencies;
+    optionalDependencies?: PackageDependencies;
+}
+
+type PackageDependencies = { [name: string]: unknown };
+
+const packageDependencyFields = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"] as const;
+
+function readPackageMeta(pkgDir: string, system: ts.System): PackageMeta | undefined {
+    const rawPkgMeta = system.readFile(crosspath.join(pkgDir, "package.json"));
+    if (rawPkgMeta === undefined) {
+        return undefined;
+    }
+
+    const json: unknown = JSON.parse(rawPkgMeta);
+    if (!isPlainObject(json)) {
+        return {};
+    }
+
+    const stringField = (key: string): string | undefined => {
+        const value = json[key];
+        return (typeof value === "string") ? value : undefined;
+    };
+    const pkgMeta: PackageMeta = {
+        name: stringField("name"),
+        type: stringField("type"),
+        main: stringField("main"),
+        module: stringField("module"),
+        exports: json.exports,
+        imports: json.imports,
+    };
+    for (const field of packageDependencyFields) {
+        const value = json[field];
+        if (isPlainObject(value)) {
+            pkgMeta[field] = value;
+        }
+    }
+    return pkgMeta;
+}
+
+function resolvePackageExports(pkgDir: string, exports: any, subpath: string, conditions: string[]): string {
+    let mapping = exports;
+    if (typeof exports === "string" || Array.isArray(exports) || !isSubpathMapping(exports)) {
+        mapping = { ".": exports };
+    }
+
+    const target = resolvePackageMappingKey(pkgDir, mapping, subpath, conditions, false);
+    if (target === null || target === undefined) {
+        throw new Error(`${subpath} is not exported by ${pkgDir}`);
+    }
+    return target;
+}
+
+function resolvePackageImports(name: string, requesterPath: string, conditions: string[], system: ts.System): string {
+    if (name === "#" || name.startsWith("#/")) {
+        throw new Error(`invalid module specifier: ${name}`);
+    }
+
+    let curDir = crosspath.dirname(requesterPath);
+    while (true) {
+        const pkgMeta = readPackageMeta(curDir, system);
+        if (pkgMeta !== undefined) {
+            const { imports } = pkgMeta;
+            if (typeof imports === "object" && imports !== null && !Array.isArray(imports)) {
+                const target = resolvePackageMappingKey(curDir, imports, name, conditions, true);
+                if (target !== null && target !== undefined) {
+                    return target;
+                }
+            }
+            break;
+        }
+
+        const nextDir = crosspath.dirname(curDir);
+        if (nextDir === curDir) {
+            break;
+        }
+        curDir = nextDir;
+    }
+
+    throw new Error(`${name} is not defined by any package.json "imports"`);
+}
+
+function isSubpathMapping(exports: any): boolean {
+    const keys = Object.keys(exports);
+    const numSubpathKeys = keys.filter(k => k.startsWith(".")).length;
+    if (numSubpathKeys !== 0 && numSubpathKeys !== keys.length) {
+        throw new Error("invalid package configuration: \"exports\" cannot mix subpaths and conditions");
+    }
+    return numSubpathKeys !== 0;
+}
+
+function resolvePackageMappingKey(pkgDir: string, mapping: { [key: string]: any }, key: string, conditions: string[],
+        isImports: boolean): string | null | undefined {
+    if (!key.includes("*") && mapping.hasOwnProperty(key)) {
+        return resolvePackageTarget(pkgDir, mapping[key], null, conditions, isImports);
+    }
+
+    let bestMatch = "";
+    let bestMatchSubpath = "";
+    for (const candidate of Object.keys(mapping)) {
+        const starIndex = candidate.indexOf("*");
+        if (starIndex === -1 || candidate.lastIndexOf("*") !== starIndex) {
+            continue;
+        }
+
+        const prefix = candidate.substring(0, starIndex);
+        const suffix = candidate.substring(starIndex + 1);
+        if (key.startsWith(prefix) && key !== prefix && key.length >= candidate.length && key.endsWith(suffix) &&
+                comparePatternKeys(bestMatch, candidate) === 1) {
+            bestMatch = candidate;
+            bestMatchSubpath = key.substring(starIndex, key.length - suffix.length);
         }
-        curDir = nextDir;
+    }
+    if (bestMatch !== "") {
+        return resolvePackageTarget(pkgDir, mapping[bestMatch], bestMatchSubpath, conditions, isImports);
     }
 
-    return "cjs";
+    return null;
 }
 
-type ResolveModuleReferenceResult = [path: string, needsAlias: boolean];
-
-function resolveModuleReference(ref: ModuleReference, assets: Assets, system: ts.System): ResolveModuleReferenceResult {
-    const refName = ref.name;
-    const requesterPath = ref.referrer.path;
+function comparePatternKeys(a: string, b: string): number {
+    const aStarIndex = a.indexOf("*");
+    const bStarIndex = b.indexOf("*");
+    const aBaseLength = (aStarIndex !== -1) ? aStarIndex + 1 : a.length;
+    const bBaseLength = (bStarIndex !== -1) ? bStarIndex + 1 : b.length;
+    if (aBaseLength > bBaseLength) {
+        return -1;
+    }
+    if (bBaseLength > aBaseLength) {
+        return 1;
+    }
+    if (aStarIndex === -1) {
+        return 1;
+    }
+    if (bStarIndex === -1) {
+        return -1;
+    }
+    if (a.length > b.length) {
+        return -1;
+    }
+    if (b.length > a.length) {
+        return 1;
+    }
+    return 0;
+}
 
-    let modPath: string;
-    let needsAlias = false;
-    if (crosspath.isAbsolute(refName)) {
-        modPath = refName;
-    } else {
-        const tokens = refName.split("/");
+function resolvePackageTarget(pkgDir: string, target: any, patternMatch: string | null, conditions: string[],
+        isImports: boolean): string | null | undefined {
+    if (typeof target === "string") {
+        const expandedTarget = (patternMatch !== null) ? target.replace(/\*/g, patternMatch) : target;
 
-        let pkgName: string;
-        let subPath: string[];
-        if (tokens[0].startsWith("@")) {
-            pkgName = tokens[0] + "/" + tokens[1];
-            subPath = tokens.slice(2);
-        } else {
-            pkgName = tokens[0];
-            subPath = tokens.slice(1);
+        if (!target.startsWith("./")) {
+            if (isImports && !target.startsWith("../") && !target.startsWith("/") && !target.includes(":")) {
+                return expandedTarget;
+            }
+            throw new Error(`invalid package target: ${target}`);
         }
 
-        const shimPath = assets.shims.get(pkgName);
-        if (shimPath !== undefined) {
-            if (shimPath.endsWith(".js")) {
-                modPath = shimPath;
-            } else {
-                modPath = crosspath.join(shimPath, ...subPath);
-            }
-            needsAlias = true;
-        } else {
-            const linkedCompilerRoot = crosspath.join(assets.projectNodeModulesDir, "frida-compile");
-            const {shimDir} = assets;
-            if (requesterPath.startsWith(compilerRoot) ||
-                    requesterPath.startsWith(linkedCompilerRoot) ||
-                    requesterPath.startsWith(shimDir)) {
-                modPath = crosspath.join(shimDir, ...tokens);
-            } else {
-                modPath = crosspath.join(assets.projectNodeModulesDir, ...tokens);
-            }
-            needsAlias = subPath.length > 0;
+        const segments = expandedTarget.split("/").slice(1);
+        if (segments.some(s => s === "." || s === ".." || s === "node_modules")) {
+            throw new Error(`invalid package target: ${target}`);
         }
+
+        return crosspath.join(pkgDir, ...segments);
     }
 
-    if (system.directoryExists(modPath)) {
-        const rawPkgMeta = system.readFile(crosspath.join(modPath, "package.json"));
-        if (rawPkgMeta !== undefined) {
-            const pkgMeta = JSON.parse(rawPkgMeta);
-            const pkgMain = pkgMeta.module ?? pkgMeta.main ?? "index.js";
-            let pkgEntrypoint = crosspath.join(modPath, pkgMain);
-            if (system.directoryExists(pkgEntrypoint)) {
-                pkgEntrypoint = crosspath.join(pkgEntrypoint, "index.js");
+    if (Array.isArray(target)) {
+        let lastError: Error | null = null;
+        for (const candidate of target) {
+            let resolved: string | null | undefined;
+            try {
+                resolved = resolvePackageTarget(pkgDir, candidate, patternMatch, conditions, isImports);
+            } catch (e) {
+                lastError = e as Error;
+                continue;
             }
-
-            modPath = pkgEntrypoint;
-            needsAlias = true;
-        } else {
-            modPath = crosspath.join(modPath, "index.js");
+            if (resolved === undefined) {
+                continue;
+            }
+            if (resolved === null) {
+                lastError = null;
+                continue;
+            }
+            return resolved;
         }
+        if (lastError !== null) {
+            throw lastError;
+        }
+        return null;
     }
 
-    if (!system.fileExists(modPath)) {
-        modPath += ".js";
-        if (!system.fileExists(modPath)) {
-            throw new Error("unable to resolve module");
+    if (typeof target === "object" && target !== null) {
+        for (const [condition, conditionalTarget] of Object.entries(target)) {
+            if (conditions.includes(condition)) {
+                const resolved = resolvePackageTarget(pkgDir, conditionalTarget, patternMatch, conditions, isImports);
+                if (resolved === undefined) {
+                    continue;
+                }
+                return resolved;
+            }
         }
+        return undefined;
     }
 
-    return [modPath, needsAlias];
+    return null;
 }
 
-function processJSModule(mod: JSModule, processedModules: Set<string>, pendingModules: ModuleReference[], jsonFilePaths: Set<string>): void {
+function processJSModule(mod: JSModule, onDiagnostic: (diagnostic: ts.Diagnostic) => void): void {
     const moduleDir = crosspath.dirname(mod.path);
     const isCJS = mod.type === "cjs";
     ts.forEachChild(mod.file, visit);
@@ -776,6 +4079,9 @@ function processJSModule(mod: JSModule, processedModules: Set<string>, pendingMo
             visitImportDeclaration(node);
         } else if (ts.isExportDeclaration(node)) {
             visitExportDeclaration(node);
+        } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+            visitDynamicImport(node);
+            ts.forEachChild(node, visit);
         } else if (isCJS && ts.isCallExpression(node)) {
             visitCallExpression(node);
             ts.forEachChild(node, visit);
@@ -786,7 +4092,7 @@ function processJSModule(mod: JSModule, processedModules: Set<string>, pendingMo
 
     function visitImportDeclaration(imp: ts.ImportDeclaration) {
         const depName = (imp.moduleSpecifier as ts.StringLiteral).text;
-        maybeAddModuleToPending(depName);
+        addReference(depName);
     }
 
     function visitExportDeclaration(exp: ts.ExportDeclaration) {
@@ -796,7 +4102,29 @@ function processJSModule(mod: JSModule, processedModules: Set<string>, pendingMo
         }
 
         const depName = (specifier as ts.StringLiteral).text;
-        maybeAddModuleToPending(depName);
+        addReference(depName);
+    }
+
+    function visitDynamicImport(call: ts.CallExpression) {
+        const specifier = call.arguments[0];
+        if (specifier === undefined) {
+            return;
+        }
+
+        if (!ts.isStringLiteralLike(specifier)) {
+            onDiagnostic({
+                file: mod.file,
+                start: specifier.getStart(mod.file),
+                length: specifier.getWidth(mod.file),
+                messageText: "Dynamic import() with a non-literal specifier cannot be bundled; the module must be provided at runtime",
+                category: ts.DiagnosticCategory.Warning,
+                code: BundlerDiagnosticCode.NonLiteralDynamicImport,
+                source: "frida-compile",
+            });
+            return;
+        }
+
+        addReference(specifier.text);
     }
 
     function visitCallExpression(call: ts.CallExpression) {
@@ -819,16 +4147,366 @@ function processJSModule(mod: JSModule, processedModules: Set<string>, pendingMo
         }
 
         const depName = arg.text;
-        maybeAddModuleToPending(depName);
+        addReference(depName);
     }
 
-    function maybeAddModuleToPending(name: string) {
+    function addReference(name: string) {
         const ref = name.startsWith(".") ? crosspath.join(moduleDir, name) : name;
-        if (name.endsWith(".json")) {
-            jsonFilePaths.add(ref);
-        } else if (!processedModules.has(ref)) {
-            pendingModules.push({ name: ref, referrer: mod });
+        mod.references.add(ref);
+    }
+}
+
+function dataLoaderFor(name: string, loaders: Map<string, Loader>): DataLoader | null {
+    const queryIndex = name.lastIndexOf("?");
+    if (queryIndex !== -1) {
+        const query = name.substring(queryIndex + 1);
+        if (query === "raw") {
+            return "text";
+        }
+        if (query === "binary") {
+            return "binary";
+        }
+    }
+
+    if (name.endsWith(".json")) {
+        return "json";
+    }
+
+    return loaders.get(crosspath.extname(name)) ?? null;
+}
+
+function stripQuery(path: string): string {
+    const queryIndex = path.lastIndexOf("?");
+    return (queryIndex !== -1) ? path.substring(0, queryIndex) : path;
+}
+
+function makeSourceTransformers(options: OutputOptions): ts.CustomTransformers {
+    return {
+        before: [
+            defineTransformer(options.defines),
+        ],
+        after: [
+            useStrictRemovalTransformer(),
+        ]
+    };
+}
+
+function defineTransformer(defines: Map<string, DefineValue>): ts.TransformerFactory<ts.SourceFile> {
+    return context => {
+        return sourceFile => {
+            const visitor = (node: ts.Node): ts.VisitResult<ts.Node> => {
+                if (ts.isTypeNode(node)) {
+                    return node;
+                }
+
+                if (ts.isShorthandPropertyAssignment(node) && isDefinedShorthand(node, defines)) {
+                    return ts.factory.createPropertyAssignment(node.name, makeDefineValueNode(defines.get(node.name.text)));
+                }
+
+                const expression = matchDefinedExpression(node, defines);
+                if (expression !== null) {
+                    return makeDefineValueNode(defines.get(expression));
+                }
+
+                return ts.visitEachChild(node, visitor, context);
+            };
+
+            return ts.visitNode(sourceFile, visitor) as ts.SourceFile;
+        };
+    };
+}
+
+function applyDefines(file: ts.SourceFile, defines: Map<string, DefineValue>): [text: string, translate: PositionTranslator | null] {
+    const edits: TextEdit[] = [];
+    const visit = (node: ts.Node): void => {
+        if (ts.isShorthandPropertyAssignment(node) && isDefinedShorthand(node, defines)) {
+            const { name } = node;
+            edits.push({
+                start: name.getStart(file),
+                end: name.end,
+                text: `${name.text}: ${defineValueText(name, defines.get(name.text), file)}`,
+            });
+            return;
+        }
+
+        const expression = matchDefinedExpression(node, defines);
+        if (expression !== null) {
+            edits.push({ start: node.getStart(file), end: node.end, text: defineValueText(node, defines.get(expression), file) });
+            return;
+        }
+
+        ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(file, visit);
+    if (edits.length === 0) {
+        return [file.text, null];
+    }
+
+    return applyTextEdits(file.text, edits);
+}
+
+function defineValueText(node: ts.Node, value: DefineValue, file: ts.SourceFile): string {
+    const text = ts.createPrinter().printNode(ts.EmitHint.Expression, makeDefineValueNode(value), file);
+
+    const { parent } = node;
+    const isMemberAccessed = (ts.isPropertyAccessExpression(parent) || ts.isElementAccessExpression(parent)) && parent.expression === node;
+    if (typeof value === "number" && value >= 0 && isMemberAccessed) {
+        return `(${text})`;
+    }
+    return text;
+}
+
+function isDefinedShorthand(node: ts.ShorthandPropertyAssignment, defines: Map<string, DefineValue>): boolean {
+    const { text } = node.name;
+    return defines.has(text) && !isLocallyDeclared(text, ts.getOriginalNode(node));
+}
+
+function matchDefinedExpression(node: ts.Node, defines: Map<string, DefineValue>): string | null {
+    if (!ts.isIdentifier(node) && !ts.isPropertyAccessExpression(node)) {
+        return null;
+    }
+
+    const expression = dottedNameOf(node);
+    if (expression === null || !defines.has(expression)) {
+        return null;
+    }
+
+    const original = ts.getOriginalNode(node);
+    const parent = original.parent as ts.Node | undefined;
+    if (parent !== undefined) {
+        if (isNamedDeclaration(parent) && parent.name === original) {
+            return null;
+        }
+        if (isPropertyName(parent, original)) {
+            return null;
         }
+        if (ts.isBinaryExpression(parent) && parent.left === node &&
+                parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+                parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment) {
+            return null;
+        }
+        if ((ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) &&
+                (parent.operator === ts.SyntaxKind.PlusPlusToken || parent.operator === ts.SyntaxKind.MinusMinusToken)) {
+            return null;
+        }
+    }
+
+    if (isLocallyDeclared(expression.split(".")[0], original)) {
+        return null;
+    }
+
+    return expression;
+}
+
+function isPropertyName(parent: ts.Node, node: ts.Node): boolean {
+    if (ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent) || ts.isBindingElement(parent)) {
+        return parent.propertyName === node;
+    }
+    if (ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) {
+        return parent.label === node;
+    }
+    if (ts.isMetaProperty(parent)) {
+        return parent.name === node;
+    }
+    return false;
+}
+
+const declaredNamesCache = new WeakMap<ts.Node, Set<string>>();
+
+function isLocallyDeclared(name: string, node: ts.Node): boolean {
+    return findDeclaringScope(name, node) !== undefined;
+}
+
+function findDeclaringScope(name: string, node: ts.Node): ts.Node | undefined {
+    for (let scope = node.parent as ts.Node | undefined; scope !== undefined; scope = scope.parent) {
+        if (declaredNamesIn(scope).has(name)) {
+            return scope;
+        }
+    }
+    return undefined;
+}
+
+function declaredNamesIn(scope: ts.Node): Set<string> {
+    let names = declaredNamesCache.get(scope);
+    if (names === undefined) {
+        names = collectDeclaredNames(scope);
+        declaredNamesCache.set(scope, names);
+    }
+    return names;
+}
+
+function collectDeclaredNames(scope: ts.Node): Set<string> {
+    const names = new Set<string>();
+
+    if (ts.isFunctionLike(scope)) {
+        for (const param of scope.parameters) {
+            addBindingNames(param.name, names);
+        }
+        if (ts.isFunctionExpression(scope) && scope.name !== undefined) {
+            names.add(scope.name.text);
+        }
+        if (scope.body !== undefined) {
+            addHoistedNames(scope.body, names);
+        }
+    } else if (ts.isClassExpression(scope) && scope.name !== undefined) {
+        names.add(scope.name.text);
+    } else if (ts.isSourceFile(scope) || ts.isModuleBlock(scope)) {
+        addHoistedNames(scope, names);
+        addLexicalNames(scope.statements, names);
+    } else if (ts.isBlock(scope)) {
+        addLexicalNames(scope.statements, names);
+    } else if (ts.isCaseBlock(scope)) {
+        for (const clause of scope.clauses) {
+            addLexicalNames(clause.statements, names);
+        }
+    } else if (ts.isForStatement(scope) || ts.isForInStatement(scope) || ts.isForOfStatement(scope)) {
+        const { initializer } = scope;
+        if (initializer !== undefined && ts.isVariableDeclarationList(initializer)) {
+            for (const decl of initializer.declarations) {
+                addBindingNames(decl.name, names);
+            }
+        }
+    } else if (ts.isCatchClause(scope) && scope.variableDeclaration !== undefined) {
+        addBindingNames(scope.variableDeclaration.name, names);
+    }
+
+    return names;
+}
+
+function addLexicalNames(statements: ts.NodeArray<ts.Statement>, names: Set<string>): void {
+    for (const statement of statements) {
+        if ((statement.flags & ts.NodeFlags.Ambient) !== 0) {
+            continue;
+        }
+
+        if (ts.isVariableStatement(statement) && (statement.declarationList.flags & ts.NodeFlags.BlockScoped) !== 0) {
+            for (const decl of statement.declarationList.declarations) {
+                addBindingNames(decl.name, names);
+            }
+        } else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isEnumDeclaration(statement)) &&
+                statement.name !== undefined) {
+            names.add(statement.name.text);
+        } else if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) {
+            names.add(statement.name.text);
+        } else if (ts.isImportEqualsDeclaration(statement) && !statement.isTypeOnly) {
+            names.add(statement.name.text);
+        } else if (ts.isImportDeclaration(statement)) {
+            const clause = statement.importClause;
+            if (clause === undefined || clause.isTypeOnly) {
+                continue;
+            }
+            if (clause.name !== undefined) {
+                names.add(clause.name.text);
+            }
+            const { namedBindings } = clause;
+            if (namedBindings !== undefined) {
+                if (ts.isNamespaceImport(namedBindings)) {
+                    names.add(namedBindings.name.text);
+                } else {
+                    for (const element of namedBindings.elements) {
+                        if (!element.isTypeOnly) {
+                            names.add(element.name.text);
+                        }
+                    }
+                }
+            }
+        }
+    }
+}
+
+function addHoistedNames(node: ts.Node, names: Set<string>): void {
+    const visit = (child: ts.Node): void => {
+        if (ts.isFunctionLike(child) || ts.isClassLike(child) || (child.flags & ts.NodeFlags.Ambient) !== 0) {
+            return;
+        }
+        if (ts.isVariableDeclarationList(child) && (child.flags & ts.NodeFlags.BlockScoped) === 0) {
+            for (const decl of child.declarations) {
+                addBindingNames(decl.name, names);
+            }
+        }
+        ts.forEachChild(child, visit);
+    };
+    ts.forEachChild(node, visit);
+}
+
+function addBindingNames(name: ts.BindingName, names: Set<string>): void {
+    if (ts.isIdentifier(name)) {
+        names.add(name.text);
+        return;
+    }
+    for (const element of name.elements) {
+        if (!ts.isOmittedExpression(element)) {
+            addBindingNames(element.name, names);
+        }
+    }
+}
+
+const namedDeclarationKinds = new Set<ts.SyntaxKind>([
+    ts.SyntaxKind.PropertyAccessExpression,
+    ts.SyntaxKind.PropertyAssignment,
+    ts.SyntaxKind.ShorthandPropertyAssignment,
+    ts.SyntaxKind.PropertyDeclaration,
+    ts.SyntaxKind.PropertySignature,
+    ts.SyntaxKind.MethodDeclaration,
+    ts.SyntaxKind.MethodSignature,
+    ts.SyntaxKind.GetAccessor,
+    ts.SyntaxKind.SetAccessor,
+    ts.SyntaxKind.VariableDeclaration,
+    ts.SyntaxKind.Parameter,
+    ts.SyntaxKind.BindingElement,
+    ts.SyntaxKind.FunctionDeclaration,
+    ts.SyntaxKind.FunctionExpression,
+    ts.SyntaxKind.ClassDeclaration,
+    ts.SyntaxKind.ClassExpression,
+    ts.SyntaxKind.InterfaceDeclaration,
+    ts.SyntaxKind.TypeAliasDeclaration,
+    ts.SyntaxKind.TypeParameter,
+    ts.SyntaxKind.EnumDeclaration,
+    ts.SyntaxKind.EnumMember,
+    ts.SyntaxKind.ModuleDeclaration,
+    ts.SyntaxKind.ImportEqualsDeclaration,
+    ts.SyntaxKind.ImportClause,
+    ts.SyntaxKind.NamespaceImport,
+    ts.SyntaxKind.NamespaceExport,
+    ts.SyntaxKind.ImportSpecifier,
+    ts.SyntaxKind.ExportSpecifier,
+    ts.SyntaxKind.JsxAttribute,
+]);
+
+function isNamedDeclaration(node: ts.Node): node is ts.NamedDeclaration {
+    return namedDeclarationKinds.has(node.kind);
+}
+
+function dottedNameOf(node: ts.Expression): string | null {
+    if (ts.isIdentifier(node)) {
+        return node.text;
+    }
+
+    if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.name)) {
+        const base = dottedNameOf(node.expression);
+        return (base !== null) ? base + "." + node.name.text : null;
+    }
+
+    return null;
+}
+
+function makeDefineValueNode(value: DefineValue): ts.Expression {
+    const { factory } = ts;
+
+    switch (typeof value) {
+        case "string":
+            return factory.createStringLiteral(value);
+        case "number":
+            return (value < 0)
+                ? factory.createParenthesizedExpression(
+                    factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, factory.createNumericLiteral(-value)))
+                : factory.createNumericLiteral(value);
+        case "boolean":
+            return value ? factory.createTrue() : factory.createFalse();
+        case "undefined":
+            return factory.createParenthesizedExpression(factory.createVoidZero());
+        default:
+            return factory.createNull();
     }
 }
 
@@ -851,6 +4529,82 @@ function useStrictRemovalTransformer(): ts.TransformerFactory<ts.SourceFile> {
     };
 }
 
+interface TextEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+type PositionTranslator = (line: number, column: number) => [line: number, column: number];
+
+function applyTextEdits(text: string, edits: TextEdit[]): [text: string, translate: PositionTranslator] {
+    const sortedEdits = [...edits].sort((a, b) => a.start - b.start);
+
+    // Replaced newlines are kept after the replacement, so every line stays where it was.
+    const chunks: string[] = [];
+    const offsets: [start: number, end: number, newStart: number, newEnd: number][] = [];
+    let pos = 0;
+    let newPos = 0;
+    for (const edit of sortedEdits) {
+        const unchanged = text.substring(pos, edit.start);
+        const replacement = edit.text + "\n".repeat(countLines(text.substring(edit.start, edit.end)) - 1);
+        chunks.push(unchanged, replacement);
+        newPos += unchanged.length;
+        offsets.push([edit.start, edit.end, newPos, newPos + replacement.length]);
+        newPos += replacement.length;
+        pos = edit.end;
+    }
+    chunks.push(text.substring(pos));
+    const newText = chunks.join("");
+
+    const lineStarts = computeLineStarts(text);
+    const newLineStarts = computeLineStarts(newText);
+
+    return [newText, (line, column) => {
+        if (line >= lineStarts.length) {
+            return [line, column];
+        }
+
+        const offset = lineStarts[line] + column;
+        let newOffset = offset;
+        for (const [start, end, newStart, newEnd] of offsets) {
+            if (offset < start) {
+                break;
+            }
+            newOffset = (offset < end) ? newStart : newEnd + (offset - end);
+        }
+
+        const newLine = lineIndexOf(newOffset, newLineStarts);
+        return [newLine, newOffset - newLineStarts[newLine]];
+    }];
+}
+
+function countLines(text: string): number {
+    return text.split("\n").length;
+}
+
+function computeLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+        starts.push(i + 1);
+    }
+    return starts;
+}
+
+function lineIndexOf(offset: number, lineStarts: number[]): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low;
+}
+
 function jsonToModule(json: string): string {
     const result: string[] = [];
 
@@ -881,6 +4635,86 @@ function jsonToModule(json: string): string {
     return result.join("\n");
 }
 
+function flattenCSource(path: string, includedPaths: Set<string>, system: ts.System): string {
+    const guardedPaths = new Set<string>();
+    return flatten(path, []);
+
+    function flatten(path: string, includeStack: string[]): string {
+        const source = system.readFile(path);
+        if (source === undefined) {
+            throw new Error(`unable to open ${path}`);
+        }
+        includedPaths.add(path);
+        if (hasIncludeGuard(source)) {
+            guardedPaths.add(path);
+        }
+
+        const dir = crosspath.dirname(path);
+        return source.split("\n").map(line => {
+            const match = /^\s*#\s*include\s+"([^"]+)"/.exec(line);
+            if (match === null) {
+                return line;
+            }
+
+            const headerPath = crosspath.join(dir, match[1]);
+            if (guardedPaths.has(headerPath)) {
+                return "";
+            }
+            if (headerPath === path || includeStack.includes(headerPath)) {
+                throw new Error(`${path}: "${match[1]}" includes itself and has no include guard`);
+            }
+            if (!system.fileExists(headerPath)) {
+                throw new Error(`${path}: unable to find included file "${match[1]}"`);
+            }
+
+            return flatten(headerPath, [...includeStack, path]).replace(/\n$/, "");
+        }).join("\n");
+    }
+}
+
+function hasIncludeGuard(source: string): boolean {
+    const directives = source.split("\n")
+        .map(line => /^\s*#\s*(\w+)\s*(\S*)/.exec(line))
+        .filter((match): match is RegExpExecArray => match !== null);
+
+    if (directives.some(([, name, argument]) => name === "pragma" && argument === "once")) {
+        return true;
+    }
+
+    const [first, second] = directives;
+    return first !== undefined && second !== undefined &&
+        first[1] === "ifndef" && second[1] === "define" && first[2] === second[2];
+}
+
+function dataToModule(data: string, loader: Loader, format: OutputFormat): string {
+    const exportPrefix = (format === "script") ? "module.exports = " : "export default ";
+
+    if (loader !== "binary") {
+        return `${exportPrefix}${JSON.stringify(data)};`;
+    }
+
+    return `const encoded = ${JSON.stringify(data)};
+const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const lookup = new Uint8Array(128);
+for (let i = 0; i !== alphabet.length; i++) {
+    lookup[alphabet.charCodeAt(i)] = i;
+}
+const padding = encoded.endsWith("==") ? 2 : encoded.endsWith("=") ? 1 : 0;
+const bytes = new Uint8Array((encoded.length / 4) * 3 - padding);
+for (let i = 0, j = 0; i !== encoded.length; i += 4) {
+    const n = (lookup[encoded.charCodeAt(i)] << 18) | (lookup[encoded.charCodeAt(i + 1)] << 12) |
+        (lookup[encoded.charCodeAt(i + 2)] << 6) | lookup[encoded.charCodeAt(i + 3)];
+    bytes[j++] = n >> 16;
+    if (j !== bytes.length) {
+        bytes[j++] = (n >> 8) & 0xff;
+    }
+    if (j !== bytes.length) {
+        bytes[j++] = n & 0xff;
+    }
+}
+${exportPrefix}bytes;`;
+}
+
 class FridaConfigFileHost implements ts.ParseConfigFileHost {
     useCaseSensitiveFileNames = true;
 
@@ -922,7 +4756,38 @@ function detectCompilerRoot(): string {
     }
 }
 
+function commonDirectoryOf(paths: string[]): string {
+    let dir = paths[0];
+    for (const path of paths.slice(1)) {
+        while (path !== dir && !path.startsWith(dir + "/") && dir !== "/") {
+            dir = crosspath.dirname(dir);
+        }
+    }
+    return dir;
+}
+
 function changeFileExtension(path: string, ext: string): string {
     const pathWithoutExtension = path.substring(0, path.lastIndexOf("."));
     return pathWithoutExtension + "." + ext;
 }
+
+const jsExtensions = [".js", ".mjs", ".cjs"];
+
+const sourceMappingURLPattern = /(?:^|\n)\/\/[#@] sourceMappingURL=(\S+)\s*$/;
+
+function isJSFilePath(path: string): boolean {
+    return jsExtensions.includes(crosspath.extname(path));
+}
+
+function jsFilePathFromSourcePath(path: string): string {
+    switch (crosspath.extname(path)) {
+        case ".mts":
+        case ".mjs":
+            return changeFileExtension(path, "mjs");
+        case ".cts":
+        case ".cjs":
+            return changeFileExtension(path, "cjs");
+        default:
+            return changeFileExtension(path, "js");
+    }
+}
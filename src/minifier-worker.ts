@@ -0,0 +1,12 @@
+import { MinifyJob, runMinifyJob, WorkerReply } from "./minifier.js";
+import { parentPort } from "worker_threads";
+
+parentPort!.on("message", (job: MinifyJob) => {
+    let reply: WorkerReply;
+    try {
+        reply = { result: runMinifyJob(job) };
+    } catch (e) {
+        reply = { error: (e as Error).message };
+    }
+    parentPort!.postMessage(reply);
+});
@@ -0,0 +1,138 @@
+import * as crosspath from "@frida/crosspath";
+import { minify, MinifyOptions } from "@frida/terser";
+import os from "os";
+import { Worker } from "worker_threads";
+
+export interface MinifyJob {
+    name: string;
+    sources: { [name: string]: string };
+    options: MinifyOptions;
+}
+
+export interface MinifyJobResult {
+    code: string;
+    map: string | null;
+}
+
+export interface Minifier {
+    minify(job: MinifyJob): Promise<MinifyJobResult>;
+    dispose(): void;
+}
+
+export function runMinifyJob({ sources, options }: MinifyJob): MinifyJobResult {
+    const result = minify(sources, options);
+
+    let map: string | null = null;
+    if (options.sourceMap !== undefined) {
+        const rawMap = result.map as { [key: string]: any };
+        const sourceRoot: string = rawMap.sourceRoot;
+        rawMap.sources = rawMap.sources.map((s: string) => (crosspath.isAbsolute(s) && !s.startsWith(sourceRoot))
+            ? crosspath.relative(sourceRoot, s)
+            : s.substring(sourceRoot.length));
+        map = JSON.stringify(rawMap);
+    }
+
+    return { code: result.code!, map };
+}
+
+export function createWorkerMinifier(size: number = Math.max(os.cpus().length, 1)): Minifier {
+    const workers = new Set<Worker>();
+    const idleWorkers: Worker[] = [];
+    const activeJobs = new Map<Worker, PendingJob>();
+    const queue: PendingJob[] = [];
+    let disposed = false;
+
+    function spawnWorker(): Worker {
+        const worker = new Worker(new URL("./minifier-worker.js", import.meta.url));
+        workers.add(worker);
+
+        worker.on("message", ({ result, error }: WorkerReply) => {
+            const job = activeJobs.get(worker)!;
+            activeJobs.delete(worker);
+            // Idle workers must not keep the process alive, e.g. between watch rebuilds.
+            worker.unref();
+            idleWorkers.push(worker);
+            if (error !== undefined) {
+                job.reject(new Error(error));
+            } else {
+                job.resolve(result!);
+            }
+            schedule();
+        });
+        worker.on("error", e => {
+            onWorkerLost(worker, e);
+        });
+        worker.on("exit", () => {
+            onWorkerLost(worker, new Error("minifier worker exited"));
+        });
+
+        return worker;
+    }
+
+    function onWorkerLost(worker: Worker, e: Error): void {
+        workers.delete(worker);
+        const index = idleWorkers.indexOf(worker);
+        if (index !== -1) {
+            idleWorkers.splice(index, 1);
+        }
+
+        const job = activeJobs.get(worker);
+        if (job !== undefined) {
+            activeJobs.delete(worker);
+            job.reject(e);
+        }
+
+        if (!disposed) {
+            schedule();
+        }
+    }
+
+    function schedule(): void {
+        while (queue.length > 0) {
+            let worker = idleWorkers.pop();
+            if (worker === undefined) {
+                if (workers.size >= size) {
+                    return;
+                }
+                worker = spawnWorker();
+            }
+
+            const job = queue.shift()!;
+            activeJobs.set(worker, job);
+            worker.ref();
+            worker.postMessage(job.job);
+        }
+    }
+
+    return {
+        minify(job: MinifyJob): Promise<MinifyJobResult> {
+            if (disposed) {
+                return Promise.reject(new Error("minifier disposed"));
+            }
+            return new Promise((resolve, reject) => {
+                queue.push({ job, resolve, reject });
+                schedule();
+            });
+        },
+        dispose(): void {
+            disposed = true;
+            for (const job of queue.splice(0)) {
+                job.reject(new Error("minifier disposed"));
+            }
+            for (const worker of workers) {
+                worker.terminate();
+            }
+        }
+    };
+}
+
+export interface WorkerReply {
+    result?: MinifyJobResult;
+    error?: string;
+}
+
+interface PendingJob {
+    job: MinifyJob;
+    resolve(result: MinifyJobResult): void;
+    reject(e: Error): void;
+}
@@ -0,0 +1,265 @@
+import * as crosspath from "@frida/crosspath";
+import ts from "../ext/typescript.js";
+
+export type ReporterKind = "pretty" | "plain" | "json" | "sarif";
+
+export interface Reporter {
+    report(diagnostic: ts.Diagnostic): void;
+    flush(): void;
+}
+
+interface DiagnosticRecord {
+    file: string | null;
+    line: number | null;
+    column: number | null;
+    endLine: number | null;
+    endColumn: number | null;
+    category: string;
+    code: string;
+    message: string;
+}
+
+interface SarifLog {
+    $schema: string;
+    version: "2.1.0";
+    runs: SarifRun[];
+}
+
+interface SarifRun {
+    tool: {
+        driver: {
+            name: string;
+            informationUri: string;
+        };
+    };
+    results: SarifResult[];
+}
+
+interface SarifResult {
+    ruleId: string;
+    level: SarifLevel;
+    message: {
+        text: string;
+    };
+    locations: SarifLocation[];
+}
+
+interface SarifLocation {
+    physicalLocation: {
+        artifactLocation: {
+            uri: string;
+        };
+        region?: SarifRegion;
+    };
+}
+
+interface SarifRegion {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+type SarifLevel = "error" | "warning" | "note";
+
+const maxCodeFrameLines = 5;
+
+const enum Color {
+    Red = "\u001b[91m",
+    Yellow = "\u001b[93m",
+    Blue = "\u001b[94m",
+    Cyan = "\u001b[96m",
+    Grey = "\u001b[90m",
+    Inverse = "\u001b[7m",
+}
+const resetEscapeSequence = "\u001b[0m";
+
+export function createReporter(kind: ReporterKind, system: ts.System): Reporter {
+    switch (kind) {
+        case "pretty":
+        case "plain":
+            return {
+                report(diagnostic: ts.Diagnostic): void {
+                    system.write(formatDiagnostic(diagnostic, system, kind === "pretty"));
+                },
+                flush(): void {
+                }
+            };
+        case "json":
+            return createCollectingReporter(system, records => JSON.stringify(records, null, 2));
+        case "sarif":
+            return createCollectingReporter(system, records => JSON.stringify(makeSarifLog(records), null, 2));
+    }
+}
+
+function createCollectingReporter(system: ts.System, serialize: (records: DiagnosticRecord[]) => string): Reporter {
+    let records: DiagnosticRecord[] = [];
+
+    return {
+        report(diagnostic: ts.Diagnostic): void {
+            records.push(makeDiagnosticRecord(diagnostic, system));
+        },
+        flush(): void {
+            system.write(serialize(records) + system.newLine);
+            records = [];
+        }
+    };
+}
+
+function makeDiagnosticRecord(diagnostic: ts.Diagnostic, system: ts.System): DiagnosticRecord {
+    const { file, start, length } = diagnostic;
+
+    const record: DiagnosticRecord = {
+        file: (file !== undefined) ? relativeFileName(file.fileName, system) : null,
+        line: null,
+        column: null,
+        endLine: null,
+        endColumn: null,
+        category: categoryName(diagnostic.category),
+        code: codeName(diagnostic),
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+    };
+
+    if (file !== undefined && start !== undefined) {
+        const begin = ts.getLineAndCharacterOfPosition(file, start);
+        const end = ts.getLineAndCharacterOfPosition(file, start + (length ?? 0));
+        record.line = begin.line + 1;
+        record.column = begin.character + 1;
+        record.endLine = end.line + 1;
+        record.endColumn = end.character + 1;
+    }
+
+    return record;
+}
+
+function formatDiagnostic(diagnostic: ts.Diagnostic, system: ts.System, pretty: boolean): string {
+    const { file, start, length, category } = diagnostic;
+    const color = (c: Color, text: string): string => pretty ? c + text + resetEscapeSequence : text;
+    const categoryColor = colorOfCategory(category);
+
+    let location = "";
+    if (file !== undefined) {
+        const fileName = relativeFileName(file.fileName, system);
+        if (start !== undefined) {
+            const { line, character } = ts.getLineAndCharacterOfPosition(file, start);
+            location = pretty
+                ? `${color(Color.Cyan, fileName)}:${color(Color.Yellow, String(line + 1))}:${color(Color.Yellow, String(character + 1))} - `
+                : `${fileName}(${line + 1},${character + 1}): `;
+        } else {
+            location = pretty ? `${color(Color.Cyan, fileName)} - ` : `${fileName}: `;
+        }
+    }
+
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, system.newLine);
+    const code = pretty ? color(Color.Grey, codeName(diagnostic) + ":") : codeName(diagnostic) + ":";
+    let output = `${location}${color(categoryColor, categoryName(category))} ${code} ${message}${system.newLine}`;
+
+    if (pretty && file !== undefined && start !== undefined) {
+        output += system.newLine + formatCodeFrame(file, start, length ?? 0, text => color(categoryColor, text), system)
+            + system.newLine;
+    }
+
+    return output;
+}
+
+function formatCodeFrame(file: ts.SourceFile, start: number, length: number, highlight: (text: string) => string,
+        system: ts.System): string {
+    const lineStarts = file.getLineStarts();
+    const first = ts.getLineAndCharacterOfPosition(file, start);
+    const last = ts.getLineAndCharacterOfPosition(file, start + length);
+    const lastShownLine = Math.min(last.line, first.line + maxCodeFrameLines - 1);
+    const gutterWidth = String(lastShownLine + 1).length;
+
+    const lines: string[] = [];
+    for (let i = first.line; i <= lastShownLine; i++) {
+        const lineStart = lineStarts[i];
+        const lineEnd = (i + 1 < lineStarts.length) ? lineStarts[i + 1] : file.text.length;
+        const text = file.text.substring(lineStart, lineEnd).trimEnd().replace(/\t/g, " ");
+
+        const from = (i === first.line) ? first.character : 0;
+        const to = (i === last.line) ? last.character : text.length;
+
+        lines.push(Color.Inverse + String(i + 1).padStart(gutterWidth) + resetEscapeSequence + " " + text);
+        lines.push(Color.Inverse + "".padStart(gutterWidth) + resetEscapeSequence + " " + " ".repeat(from) +
+            highlight("~".repeat(Math.max(to - from, 1))));
+    }
+
+    return lines.join(system.newLine) + system.newLine;
+}
+
+function makeSarifLog(records: DiagnosticRecord[]): SarifLog {
+    return {
+        $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+        version: "2.1.0",
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: "frida-compile",
+                        informationUri: "https://frida.re",
+                    }
+                },
+                results: records.map(record => ({
+                    ruleId: record.code,
+                    level: sarifLevelOf(record.category),
+                    message: { text: record.message },
+                    locations: sarifLocationsOf(record),
+                })),
+            }
+        ]
+    };
+}
+
+function sarifLocationsOf({ file, line, column, endLine, endColumn }: DiagnosticRecord): SarifLocation[] {
+    if (file === null) {
+        return [];
+    }
+
+    const location: SarifLocation = {
+        physicalLocation: {
+            artifactLocation: { uri: file },
+        }
+    };
+    if (line !== null && column !== null && endLine !== null && endColumn !== null) {
+        location.physicalLocation.region = { startLine: line, startColumn: column, endLine, endColumn };
+    }
+    return [location];
+}
+
+function sarifLevelOf(category: string): SarifLevel {
+    switch (category) {
+        case "error":
+            return "error";
+        case "warning":
+            return "warning";
+        default:
+            return "note";
+    }
+}
+
+function categoryName(category: ts.DiagnosticCategory): string {
+    return ts.DiagnosticCategory[category].toLowerCase();
+}
+
+function colorOfCategory(category: ts.DiagnosticCategory): Color {
+    switch (category) {
+        case ts.DiagnosticCategory.Error:
+            return Color.Red;
+        case ts.DiagnosticCategory.Warning:
+            return Color.Yellow;
+        case ts.DiagnosticCategory.Suggestion:
+            return Color.Grey;
+        default:
+            return Color.Blue;
+    }
+}
+
+function codeName({ code, source }: ts.Diagnostic): string {
+    return ((source === "frida-compile") ? "FC" : "TS") + code;
+}
+
+function relativeFileName(fileName: string, system: ts.System): string {
+    const cwd = crosspath.ensurePosix(system.getCurrentDirectory());
+    const posixName = crosspath.ensurePosix(fileName);
+    return posixName.startsWith(cwd + "/") ? crosspath.relative(cwd, posixName) : posixName;
+}
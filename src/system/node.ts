@@ -23,6 +23,7 @@ import _fs from "fs";
 import _os from "os";
 import _path from "path";
 import ts from "../../ext/typescript.js";
+import type { System } from "../compiler.js";
 
 enum FileWatcherEventKind {
     Created,
@@ -56,8 +57,8 @@ const {
     some,
 } = tsPriv;
 
-export function getNodeSystem(): ts.System {
-    let nodeSystem: ts.System;
+export function getNodeSystem(): System {
+    let nodeSystem: System;
 
     const selfPath = import.meta.url.substring((process.platform === "win32") ? 8 : 7);
     const systemDir = _path.dirname(selfPath);
@@ -111,6 +112,7 @@ export function getNodeSystem(): ts.System {
             return process.stdout.isTTY;
         },
         readFile,
+        readBinaryFile,
         writeFile,
         watchFile,
         watchDirectory,
@@ -328,6 +330,15 @@ export function getNodeSystem(): ts.System {
         return readFileWorker(fileName, _encoding);
     }
 
+    function readBinaryFile(fileName: string): Uint8Array | undefined {
+        try {
+            return _fs.readFileSync(fileName);
+        }
+        catch (e) {
+            return undefined;
+        }
+    }
+
     function writeFile(fileName: string, data: string, writeByteOrderMark?: boolean): void {
         // If a BOM is required, emit one
         if (writeByteOrderMark) {